@@ -0,0 +1,29 @@
+import React from 'react'
+import { Clock } from 'lucide-react'
+
+interface RetryAfterNoticeProps {
+  secondsLeft: number
+}
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+const RetryAfterNotice: React.FC<RetryAfterNoticeProps> = ({ secondsLeft }) => {
+  if (secondsLeft <= 0) {
+    return null
+  }
+
+  return (
+    <div className="p-4 bg-yellow-50 rounded-lg flex items-center">
+      <Clock className="w-5 h-5 text-yellow-700 mr-3 flex-shrink-0" />
+      <p className="text-sm text-yellow-800">
+        Too many failed attempts. For your security, please wait{' '}
+        <span className="font-medium">{formatTime(secondsLeft)}</span> before trying again.
+      </p>
+    </div>
+  )
+}
+
+export default RetryAfterNotice
@@ -3,9 +3,21 @@ import Navbar from './Navbar'
 
 interface LayoutProps {
   children: React.ReactNode
+  fullBleed?: boolean // children fill the screen below the navbar, without padding
 }
 
-const Layout: React.FC<LayoutProps> = ({ children }) => {
+const Layout: React.FC<LayoutProps> = ({ children, fullBleed = false }) => {
+  if (fullBleed) {
+    return (
+      <div className="h-[100dvh] flex flex-col bg-black">
+        <Navbar />
+        <main className="flex-1 min-h-0">
+          {children}
+        </main>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Navbar />
@@ -16,4 +28,4 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   )
 }
 
-export default Layout
\ No newline at end of file
+export default Layout
@@ -0,0 +1,105 @@
+import React, { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { ShieldAlert, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useAuth } from '../../hooks/useAuth'
+import { useRetryAfter } from '../../hooks/useRetryAfter'
+import { videoApi } from '../../services/api'
+import Modal from '../common/Modal'
+import Button from '../common/Button'
+import Input from '../common/Input'
+import RetryAfterNotice from '../common/RetryAfterNotice'
+import type { DeleteVideoData, Video } from '../../types'
+
+interface DeleteVideoModalProps {
+  video: Video | null
+  onClose: () => void
+  onDeleted: (videoId: string) => void
+}
+
+const DeleteVideoModal: React.FC<DeleteVideoModalProps> = ({ video, onClose, onDeleted }) => {
+  const { user } = useAuth()
+  const [deleting, setDeleting] = useState(false)
+  const { locked, secondsLeft, handleError } = useRetryAfter()
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+  } = useForm<DeleteVideoData>()
+
+  const handleClose = () => {
+    reset()
+    onClose()
+  }
+
+  const onSubmit = async (data: DeleteVideoData) => {
+    if (!video) return
+
+    try {
+      setDeleting(true)
+      await videoApi.remove({ ...data, videoId: video.id })
+      toast.success('Video deleted')
+      onDeleted(video.id)
+      handleClose()
+    } catch (error: any) {
+      handleError(error)
+      const errorMessage = error.response?.data?.error || 'Failed to delete video'
+      toast.error(errorMessage)
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  return (
+    <Modal open={video !== null} title="Delete Video" onClose={handleClose}>
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        <div className="p-3 bg-red-50 rounded-lg flex">
+          <ShieldAlert className="w-5 h-5 text-red-700 mr-3 flex-shrink-0" />
+          <p className="text-sm text-red-800">
+            "{video?.title}" and its file will be removed. A revocation signed by your
+            wallet is kept so anyone can see the video was withdrawn by its owner.
+          </p>
+        </div>
+
+        <Input
+          label="Password"
+          type="password"
+          autoComplete="current-password"
+          placeholder="Enter your password to sign the revocation"
+          {...register('password', {
+            required: 'Password is required',
+          })}
+          error={errors.password?.message}
+        />
+
+        {user?.totpEnabled && (
+          <Input
+            label="Authenticator Code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="6-digit code or backup code"
+            {...register('totpCode', {
+              required: 'Authentication code is required',
+            })}
+            error={errors.totpCode?.message}
+          />
+        )}
+
+        <RetryAfterNotice secondsLeft={secondsLeft} />
+
+        <div className="flex justify-end space-x-3">
+          <Button type="button" variant="ghost" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button type="submit" loading={deleting} disabled={deleting || locked}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete Video
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
+
+export default DeleteVideoModal
@@ -0,0 +1,30 @@
+import React from 'react'
+
+interface DurationBadgeProps {
+  seconds: number | null
+  className?: string
+}
+
+const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds)
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const rest = String(total % 60).padStart(2, '0')
+
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`
+}
+
+// Video length over a thumbnail; nothing until the media worker has read it
+const DurationBadge: React.FC<DurationBadgeProps> = ({ seconds, className = '' }) => {
+  if (seconds === null) {
+    return null
+  }
+
+  return (
+    <span className={`px-1.5 py-0.5 rounded bg-black/75 text-white text-xs font-medium tabular-nums ${className}`}>
+      {formatDuration(seconds)}
+    </span>
+  )
+}
+
+export default DurationBadge
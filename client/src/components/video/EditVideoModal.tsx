@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { Save } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useAuth } from '../../hooks/useAuth'
+import { useRetryAfter } from '../../hooks/useRetryAfter'
+import { videoApi } from '../../services/api'
+import Modal from '../common/Modal'
+import Button from '../common/Button'
+import Input from '../common/Input'
+import RetryAfterNotice from '../common/RetryAfterNotice'
+import type { UpdateVideoData, Video } from '../../types'
+
+interface EditVideoModalProps {
+  video: Video | null
+  onClose: () => void
+  onUpdated: (video: Video) => void
+}
+
+const EditVideoModal: React.FC<EditVideoModalProps> = ({ video, onClose, onUpdated }) => {
+  const { user } = useAuth()
+  const [saving, setSaving] = useState(false)
+  const { locked, secondsLeft, handleError } = useRetryAfter()
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+  } = useForm<UpdateVideoData>()
+
+  useEffect(() => {
+    if (video) {
+      reset({ videoId: video.id, title: video.title })
+    }
+  }, [video])
+
+  const handleClose = () => {
+    reset()
+    onClose()
+  }
+
+  const onSubmit = async (data: UpdateVideoData) => {
+    if (!video) return
+
+    try {
+      setSaving(true)
+      const response = await videoApi.update({ ...data, videoId: video.id })
+      toast.success('Video updated and signed')
+      onUpdated(response.video)
+      handleClose()
+    } catch (error: any) {
+      handleError(error)
+      const errorMessage = error.response?.data?.error || 'Failed to update video'
+      toast.error(errorMessage)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Modal open={video !== null} title="Edit Video" onClose={handleClose}>
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        <Input
+          label="Video Title"
+          placeholder="Enter a catchy title for your video"
+          {...register('title', {
+            required: 'Video title is required',
+            minLength: {
+              value: 3,
+              message: 'Title must be at least 3 characters long',
+            },
+            maxLength: {
+              value: 100,
+              message: 'Title must be less than 100 characters',
+            },
+          })}
+          error={errors.title?.message}
+        />
+
+        <Input
+          label="Password"
+          type="password"
+          autoComplete="current-password"
+          placeholder="Enter your password to sign the change"
+          {...register('password', {
+            required: 'Password is required',
+          })}
+          error={errors.password?.message}
+          helperText="The new title is signed with your wallet, like the original upload"
+        />
+
+        {user?.totpEnabled && (
+          <Input
+            label="Authenticator Code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="6-digit code or backup code"
+            {...register('totpCode', {
+              required: 'Authentication code is required',
+            })}
+            error={errors.totpCode?.message}
+          />
+        )}
+
+        <RetryAfterNotice secondsLeft={secondsLeft} />
+
+        <div className="flex justify-end space-x-3">
+          <Button type="button" variant="ghost" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button type="submit" loading={saving} disabled={saving || locked}>
+            <Save className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
+
+export default EditVideoModal
@@ -0,0 +1,166 @@
+import React, { useEffect, useRef } from 'react'
+import { Heart, MessageCircle, Share2, Play, Volume2, VolumeX } from 'lucide-react'
+import { preloadStream } from '../../services/streamPreload'
+import HlsVideo from './HlsVideo'
+import VerifiedBadge from './VerifiedBadge'
+import DurationBadge from './DurationBadge'
+import type { Video } from '../../types'
+
+interface FeedSlideProps {
+  video: Video
+  index: number
+  active: boolean // in view; the only slide with a <video> element
+  upcoming: boolean // next after the active one, so its stream is preloaded
+  liked: boolean // by the current user
+  canLike: boolean // logged in; otherwise the heart leads to the login page
+  muted: boolean
+  paused: boolean
+  onToggleLike: () => void
+  onToggleMute: () => void
+  onAutoplayBlocked: () => void
+}
+
+const formatAddress = (address: string) => {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`
+}
+
+const likeCountFormat = new Intl.NumberFormat(undefined, { notation: 'compact' })
+
+// One full-screen video of the feed. Slides out of view only show the poster,
+// so a single video decodes at a time however long the feed gets.
+const FeedSlide: React.FC<FeedSlideProps> = ({
+  video,
+  index,
+  active,
+  upcoming,
+  liked,
+  canLike,
+  muted,
+  paused,
+  onToggleLike,
+  onToggleMute,
+  onAutoplayBlocked,
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null)
+
+  useEffect(() => {
+    const element = videoRef.current
+    if (!active || !element) return
+
+    if (paused) {
+      element.pause()
+      return
+    }
+
+    element.play().catch((error) => {
+      // Browsers only autoplay with sound once the user has interacted with the page
+      if (error.name === 'NotAllowedError' && !element.muted) {
+        onAutoplayBlocked()
+      }
+    })
+  }, [active, paused, muted, onAutoplayBlocked])
+
+  useEffect(() => {
+    if (upcoming && video.hlsUrl) {
+      preloadStream(video.hlsUrl)
+    }
+  }, [upcoming, video.hlsUrl])
+
+  return (
+    <section data-index={index} className="relative h-full w-full snap-start snap-always bg-black overflow-hidden">
+      {active ? (
+        <HlsVideo
+          ref={videoRef}
+          hlsUrl={video.hlsUrl}
+          fallbackUrl={video.videoUrl}
+          poster={video.thumbnailUrl ?? undefined}
+          className="w-full h-full object-contain"
+          muted={muted}
+          loop
+          playsInline
+        />
+      ) : (
+        video.thumbnailUrl && (
+          <img
+            src={video.thumbnailUrl}
+            alt={video.title}
+            loading={upcoming ? 'eager' : 'lazy'}
+            className="w-full h-full object-contain"
+          />
+        )
+      )}
+
+      {/* Tapping the video toggles the sound */}
+      <button
+        onClick={onToggleMute}
+        className="absolute inset-0 w-full h-full cursor-pointer"
+        aria-label={muted ? 'Unmute' : 'Mute'}
+      />
+
+      {active && paused && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <div className="w-16 h-16 rounded-full bg-black/50 backdrop-blur-sm flex items-center justify-center text-white">
+            <Play className="w-8 h-8 ml-1" />
+          </div>
+        </div>
+      )}
+
+      <div className="video-overlay pointer-events-none" />
+
+      <DurationBadge seconds={video.durationSeconds} className="absolute top-4 left-4" />
+
+      <div className="video-controls">
+        <div className="video-info min-w-0 mr-4">
+          <div className="flex items-center space-x-3 mb-2">
+            <div className="w-10 h-10 bg-gradient-to-br from-primary-500 to-primary-600 rounded-full flex items-center justify-center flex-shrink-0">
+              <span className="text-white font-semibold text-sm">
+                {video.owner?.username?.slice(0, 2).toUpperCase() || 'U'}
+              </span>
+            </div>
+            <div className="min-w-0">
+              <div className="flex items-center space-x-2">
+                <h3 className="font-medium truncate">
+                  {video.owner?.username || 'Unknown User'}
+                </h3>
+                <VerifiedBadge videoId={video.id} />
+              </div>
+              <p className="text-sm text-gray-300">
+                {formatAddress(video.owner?.walletAddress || '')} · {new Date(video.createdAt).toLocaleDateString()}
+              </p>
+            </div>
+          </div>
+          <h4 className="font-medium text-lg">
+            {video.title}
+          </h4>
+        </div>
+
+        <div className="video-actions">
+          <button onClick={onToggleMute} className="action-button" aria-label={muted ? 'Unmute' : 'Mute'}>
+            {muted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+          </button>
+          <div className="flex flex-col items-center">
+            <button
+              onClick={onToggleLike}
+              className="action-button"
+              aria-label={canLike ? (liked ? 'Unlike' : 'Like') : 'Log in to like'}
+              aria-pressed={canLike ? liked : undefined}
+            >
+              <Heart className={`w-5 h-5 ${liked ? 'fill-red-500 text-red-500' : ''}`} />
+            </button>
+            <span className="text-white text-xs font-medium mt-1">
+              {likeCountFormat.format(video.likeCount)}
+            </span>
+          </div>
+          <button className="action-button" aria-label="Comment">
+            <MessageCircle className="w-5 h-5" />
+          </button>
+          <button className="action-button" aria-label="Share">
+            <Share2 className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+    </section>
+  )
+}
+
+export default FeedSlide
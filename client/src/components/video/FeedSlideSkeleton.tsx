@@ -0,0 +1,25 @@
+import React from 'react'
+
+// Placeholder with the shape of a feed slide while videos load
+const FeedSlideSkeleton: React.FC = () => {
+  return (
+    <div className="relative h-full w-full snap-start bg-gray-900 animate-pulse">
+      <div className="video-controls">
+        <div className="video-info space-y-3">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gray-700 rounded-full" />
+            <div className="h-4 w-32 bg-gray-700 rounded" />
+          </div>
+          <div className="h-5 w-2/3 bg-gray-700 rounded" />
+        </div>
+        <div className="video-actions">
+          <div className="w-12 h-12 bg-gray-700 rounded-full" />
+          <div className="w-12 h-12 bg-gray-700 rounded-full" />
+          <div className="w-12 h-12 bg-gray-700 rounded-full" />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default FeedSlideSkeleton
@@ -0,0 +1,56 @@
+import React, { useEffect, useImperativeHandle, useRef } from 'react'
+import Hls from 'hls.js'
+
+interface HlsVideoProps extends Omit<React.VideoHTMLAttributes<HTMLVideoElement>, 'src'> {
+  hlsUrl: string | null
+  fallbackUrl: string // the original upload, for videos without a stream
+}
+
+// Plays a video's HLS stream through hls.js, or natively where Media Source
+// Extensions are missing (iOS Safari). Nothing is downloaded until playback
+// starts, and the original file is used if the stream can't be played.
+const HlsVideo = React.forwardRef<HTMLVideoElement, HlsVideoProps>(({ hlsUrl, fallbackUrl, ...props }, ref) => {
+  const videoRef = useRef<HTMLVideoElement>(null)
+
+  useImperativeHandle(ref, () => videoRef.current!)
+
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video) return
+
+    if (!hlsUrl) {
+      video.src = fallbackUrl
+      return
+    }
+
+    if (!Hls.isSupported()) {
+      video.src = video.canPlayType('application/vnd.apple.mpegurl') ? hlsUrl : fallbackUrl
+      return
+    }
+
+    const hls = new Hls({ autoStartLoad: false, capLevelToPlayerSize: true })
+    const startLoad = () => hls.startLoad()
+
+    hls.on(Hls.Events.ERROR, (_event, data) => {
+      if (data.fatal) {
+        console.error('HLS playback error:', data)
+        hls.destroy()
+        video.src = fallbackUrl
+      }
+    })
+    hls.loadSource(hlsUrl)
+    hls.attachMedia(video)
+    video.addEventListener('play', startLoad, { once: true })
+
+    return () => {
+      video.removeEventListener('play', startLoad)
+      hls.destroy()
+    }
+  }, [hlsUrl, fallbackUrl])
+
+  return <video ref={videoRef} {...props} />
+})
+
+HlsVideo.displayName = 'HlsVideo'
+
+export default HlsVideo
@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react'
+import { ShieldCheck, ShieldOff } from 'lucide-react'
+import { videoApi } from '../../services/api'
+import type { VerifyVideoResponse } from '../../types'
+
+interface VerifiedBadgeProps {
+  videoId: string
+}
+
+// Asks the server to check the video's signature against its owner's wallet
+const VerifiedBadge: React.FC<VerifiedBadgeProps> = ({ videoId }) => {
+  const [result, setResult] = useState<VerifyVideoResponse | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    videoApi.verify(videoId)
+      .then((response) => {
+        if (!cancelled) {
+          setResult(response)
+        }
+      })
+      .catch((error) => {
+        console.error('Error verifying video:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [videoId])
+
+  if (!result) {
+    return null
+  }
+
+  if (!result.verified) {
+    return (
+      <span
+        className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600"
+        title={result.reason || undefined}
+      >
+        <ShieldOff className="w-3 h-3 mr-1" />
+        Unverified
+      </span>
+    )
+  }
+
+  return (
+    <span
+      className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800"
+      title={`Signed by ${result.signer}${result.signedAt ? ` on ${new Date(result.signedAt).toLocaleString()}` : ''}`}
+    >
+      <ShieldCheck className="w-3 h-3 mr-1" />
+      Verified
+    </span>
+  )
+}
+
+export default VerifiedBadge
@@ -0,0 +1,148 @@
+import React, { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { Download, ShieldAlert } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useAuth } from '../../hooks/useAuth'
+import { useRetryAfter } from '../../hooks/useRetryAfter'
+import { walletApi } from '../../services/api'
+import Modal from '../common/Modal'
+import Button from '../common/Button'
+import Input from '../common/Input'
+import RetryAfterNotice from '../common/RetryAfterNotice'
+import type { ExportWalletData } from '../../types'
+
+interface ExportWalletModalProps {
+  open: boolean
+  onClose: () => void
+}
+
+// Keystore files are conventionally named UTC--<timestamp>--<address>
+const keystoreFileName = (address: string) =>
+  `UTC--${new Date().toISOString().replace(/:/g, '-')}--${address.slice(2).toLowerCase()}.json`
+
+const downloadJson = (fileName: string, data: unknown) => {
+  const blob = new Blob([JSON.stringify(data)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+const ExportWalletModal: React.FC<ExportWalletModalProps> = ({ open, onClose }) => {
+  const { user } = useAuth()
+  const [exporting, setExporting] = useState(false)
+  const { locked, secondsLeft, handleError } = useRetryAfter()
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    watch,
+    reset,
+  } = useForm<ExportWalletData>()
+
+  const exportPassphrase = watch('exportPassphrase')
+
+  const handleClose = () => {
+    reset()
+    onClose()
+  }
+
+  const onSubmit = async (data: ExportWalletData) => {
+    try {
+      setExporting(true)
+      const response = await walletApi.exportKeystore(data)
+      downloadJson(keystoreFileName(response.address), response.keystore)
+      toast.success('Keystore file downloaded')
+      handleClose()
+    } catch (error: any) {
+      handleError(error)
+      const errorMessage = error.response?.data?.error || 'Failed to export wallet'
+      toast.error(errorMessage)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <Modal open={open} title="Export Wallet" onClose={handleClose}>
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        <div className="p-3 bg-yellow-50 rounded-lg flex">
+          <ShieldAlert className="w-5 h-5 text-yellow-700 mr-3 flex-shrink-0" />
+          <p className="text-sm text-yellow-800">
+            You'll download a Keystore V3 file that works with MetaMask, MyEtherWallet and
+            other wallets. Anyone with the file and its passphrase controls your wallet.
+          </p>
+        </div>
+
+        <Input
+          label="Password"
+          type="password"
+          autoComplete="current-password"
+          placeholder="Enter your account password"
+          {...register('password', {
+            required: 'Password is required',
+          })}
+          error={errors.password?.message}
+        />
+
+        <Input
+          label="Keystore Passphrase"
+          type="password"
+          autoComplete="new-password"
+          placeholder="Choose a passphrase for the file"
+          {...register('exportPassphrase', {
+            required: 'Passphrase is required',
+            minLength: {
+              value: 12,
+              message: 'Passphrase must be at least 12 characters long',
+            },
+          })}
+          error={errors.exportPassphrase?.message}
+          helperText="You'll need this passphrase to import the file into another wallet"
+        />
+
+        <Input
+          label="Confirm Passphrase"
+          type="password"
+          autoComplete="new-password"
+          placeholder="Confirm the passphrase"
+          {...register('confirmExportPassphrase', {
+            required: 'Please confirm the passphrase',
+            validate: (value) =>
+              value === exportPassphrase || 'Passphrases do not match',
+          })}
+          error={errors.confirmExportPassphrase?.message}
+        />
+
+        {user?.totpEnabled && (
+          <Input
+            label="Authenticator Code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="6-digit code or backup code"
+            {...register('totpCode', {
+              required: 'Authentication code is required',
+            })}
+            error={errors.totpCode?.message}
+          />
+        )}
+
+        <RetryAfterNotice secondsLeft={secondsLeft} />
+
+        <div className="flex justify-end space-x-3">
+          <Button type="button" variant="ghost" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button type="submit" loading={exporting} disabled={exporting || locked}>
+            <Download className="w-4 h-4 mr-2" />
+            Download Keystore
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
+
+export default ExportWalletModal
@@ -2,12 +2,26 @@ import { useState, useEffect, useContext, createContext, ReactNode } from 'react
 import { useNavigate } from 'react-router-dom'
 import toast from 'react-hot-toast'
 import { authApi } from '../services/api'
-import type { User, AuthState, RegisterData, LoginData } from '../types'
+import { signSiweMessage } from '../services/wallet'
+import type {
+  User,
+  AuthState,
+  RegisterData,
+  LoginData,
+  RegisterResponse,
+  AuthResponse,
+  MfaChallengeResponse
+} from '../types'
 
 interface AuthContextType extends AuthState {
-  login: (data: LoginData) => Promise<void>
-  register: (data: RegisterData) => Promise<void>
-  logout: () => void
+  initializing: boolean
+  login: (data: LoginData) => Promise<MfaChallengeResponse | null>
+  loginWithWallet: () => Promise<MfaChallengeResponse | null>
+  completeMfaLogin: (challengeToken: string, code: string) => Promise<void>
+  updateUser: (changes: Partial<User>) => void
+  register: (data: RegisterData) => Promise<RegisterResponse>
+  logout: () => Promise<void>
+  logoutAllDevices: () => Promise<void>
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
@@ -19,6 +33,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     loading: true,
     error: null,
   })
+  // Only true while the stored session is restored; `loading` also covers login requests
+  const [initializing, setInitializing] = useState(true)
   const navigate = useNavigate()
 
   useEffect(() => {
@@ -38,33 +54,47 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       } catch (error) {
         // Invalid stored data, clear it
         localStorage.removeItem('auth_token')
+        localStorage.removeItem('refresh_token')
         localStorage.removeItem('user')
         setAuthState(prev => ({ ...prev, loading: false }))
       }
     } else {
       setAuthState(prev => ({ ...prev, loading: false }))
     }
+    setInitializing(false)
   }, [])
 
+  const finishLogin = (response: AuthResponse) => {
+    // Store auth data
+    localStorage.setItem('auth_token', response.token)
+    localStorage.setItem('refresh_token', response.refreshToken)
+    localStorage.setItem('user', JSON.stringify(response.user))
+    
+    setAuthState({
+      user: response.user,
+      token: response.token,
+      loading: false,
+      error: null,
+    })
+    
+    toast.success('Login successful!')
+    navigate('/')
+  }
+
   const login = async (data: LoginData) => {
     try {
       setAuthState(prev => ({ ...prev, loading: true, error: null }))
       
       const response = await authApi.login(data)
       
-      // Store auth data
-      localStorage.setItem('auth_token', response.token)
-      localStorage.setItem('user', JSON.stringify(response.user))
-      
-      setAuthState({
-        user: response.user,
-        token: response.token,
-        loading: false,
-        error: null,
-      })
+      // Accounts with 2FA get a challenge instead of tokens; the caller asks for a code
+      if ('challengeToken' in response) {
+        setAuthState(prev => ({ ...prev, loading: false }))
+        return response
+      }
       
-      toast.success('Login successful!')
-      navigate('/')
+      finishLogin(response)
+      return null
     } catch (error: any) {
       const errorMessage = error.response?.data?.error || 'Login failed'
       setAuthState(prev => ({ 
@@ -77,6 +107,67 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   }
 
+  // Sign-In With Ethereum using the browser's injected wallet
+  const loginWithWallet = async () => {
+    try {
+      setAuthState(prev => ({ ...prev, loading: true, error: null }))
+      
+      const { nonce } = await authApi.getSiweNonce()
+      const { message, signature } = await signSiweMessage(nonce)
+      const response = await authApi.siweLogin(message, signature)
+      
+      if ('challengeToken' in response) {
+        setAuthState(prev => ({ ...prev, loading: false }))
+        return response
+      }
+      
+      finishLogin(response)
+      return null
+    } catch (error: any) {
+      const errorMessage = error.code === 'ACTION_REJECTED'
+        ? 'Signature request was rejected'
+        : error.response?.data?.error || error.message || 'Wallet sign-in failed'
+      setAuthState(prev => ({ 
+        ...prev, 
+        loading: false, 
+        error: errorMessage 
+      }))
+      toast.error(errorMessage)
+      throw error
+    }
+  }
+
+  const completeMfaLogin = async (challengeToken: string, code: string) => {
+    try {
+      setAuthState(prev => ({ ...prev, loading: true, error: null }))
+      
+      const response = await authApi.loginMfa(challengeToken, code)
+      
+      finishLogin(response)
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.error || 'Verification failed'
+      setAuthState(prev => ({ 
+        ...prev, 
+        loading: false, 
+        error: errorMessage 
+      }))
+      toast.error(errorMessage)
+      throw error
+    }
+  }
+
+  // Keep the stored user in sync after profile or security changes
+  const updateUser = (changes: Partial<User>) => {
+    setAuthState(prev => {
+      if (!prev.user) {
+        return prev
+      }
+      const user = { ...prev.user, ...changes }
+      localStorage.setItem('user', JSON.stringify(user))
+      return { ...prev, user }
+    })
+  }
+
   const register = async (data: RegisterData) => {
     try {
       setAuthState(prev => ({ ...prev, loading: true, error: null }))
@@ -85,8 +176,9 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       
       setAuthState(prev => ({ ...prev, loading: false, error: null }))
       
-      toast.success('Registration successful! Please login.')
-      navigate('/login')
+      // The caller shows the one-time recovery phrase before moving on to login
+      toast.success('Registration successful!')
+      return response
     } catch (error: any) {
       const errorMessage = error.response?.data?.error || 'Registration failed'
       setAuthState(prev => ({ 
@@ -99,8 +191,9 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   }
 
-  const logout = () => {
+  const clearAuth = () => {
     localStorage.removeItem('auth_token')
+    localStorage.removeItem('refresh_token')
     localStorage.removeItem('user')
     setAuthState({
       user: null,
@@ -108,16 +201,43 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       loading: false,
       error: null,
     })
+  }
+
+  const logout = async () => {
+    try {
+      // Revoke the session on the server so the refresh token stops working
+      await authApi.logout()
+    } catch (error) {
+      // Still clear local state if the server can't be reached
+    }
+    clearAuth()
     toast.success('Logged out successfully')
     navigate('/login')
   }
 
+  const logoutAllDevices = async () => {
+    try {
+      await authApi.logout(true)
+      clearAuth()
+      toast.success('Signed out of all devices')
+      navigate('/login')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.error || 'Failed to sign out of all devices'
+      toast.error(errorMessage)
+    }
+  }
+
   return (
     <AuthContext.Provider value={{ 
       ...authState, 
+      initializing,
       login, 
+      loginWithWallet,
+      completeMfaLogin,
+      updateUser,
       register, 
-      logout 
+      logout,
+      logoutAllDevices
     }}>
       {children}
     </AuthContext.Provider>
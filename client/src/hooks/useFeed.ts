@@ -0,0 +1,132 @@
+import { useState, useRef, useEffect, useCallback } from 'react'
+import { useNavigate, useNavigationType } from 'react-router-dom'
+import toast from 'react-hot-toast'
+import { videoApi } from '../services/api'
+import { getLikedVideoIds, likeVideo, unlikeVideo } from '../services/likes'
+import { useAuth } from './useAuth'
+import type { Video } from '../types'
+
+const FEED_PAGE_SIZE = 10
+const LOAD_AHEAD = 3 // fetch the next page when this few videos are left
+
+interface FeedSnapshot {
+  userId: string | null // whose feed it is, so another login doesn't get it back
+  videos: Video[]
+  likedIds: Set<string>
+  nextCursor: string | null
+  index: number
+}
+
+// The feed as it was last left, so going back to it shows the same video
+// instead of starting over. Kept in memory only: a reload starts a fresh feed.
+let savedFeed: FeedSnapshot | null = null
+
+// Pages through the feed. `index` is the video in view; more videos are
+// fetched as it gets close to the end of what's loaded. Also tracks which of
+// them the user has liked.
+export const useFeed = () => {
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+  const navigate = useNavigate()
+  const navigationType = useNavigationType()
+  const [restored] = useState(() =>
+    navigationType === 'POP' && savedFeed?.userId === userId ? savedFeed : null
+  )
+  const [videos, setVideos] = useState<Video[]>(restored?.videos ?? [])
+  const [likedIds, setLikedIds] = useState<Set<string>>(restored?.likedIds ?? new Set())
+  const [nextCursor, setNextCursor] = useState<string | null>(restored?.nextCursor ?? null)
+  const [hasMore, setHasMore] = useState(restored ? restored.nextCursor !== null : true)
+  const [index, setIndex] = useState(restored?.index ?? 0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState(false)
+  const loadingRef = useRef(false)
+  const likingRef = useRef(new Set<string>())
+
+  const loadMore = useCallback(async () => {
+    if (loadingRef.current || !hasMore) return
+
+    try {
+      loadingRef.current = true
+      setLoading(true)
+      setError(false)
+      const page = await videoApi.feed(nextCursor, FEED_PAGE_SIZE)
+      setVideos((current) => [...current, ...page.videos])
+      setNextCursor(page.nextCursor)
+      setHasMore(page.nextCursor !== null)
+
+      // The page shows without hearts filled in rather than not at all.
+      // Logged out there are no likes to show.
+      if (userId) {
+        getLikedVideoIds(page.videos.map((video) => video.id))
+          .then((ids) => setLikedIds((current) => new Set([...current, ...ids])))
+          .catch((error) => console.error('Error fetching likes:', error))
+      }
+    } catch (error) {
+      console.error('Error fetching videos:', error)
+      setError(true)
+    } finally {
+      loadingRef.current = false
+      setLoading(false)
+    }
+  }, [hasMore, nextCursor, userId])
+
+  const setLikeCount = (videoId: string, update: (likeCount: number) => number) => {
+    setVideos((current) =>
+      current.map((video) => (video.id === videoId ? { ...video, likeCount: update(video.likeCount) } : video))
+    )
+  }
+
+  const setLiked = (videoId: string, liked: boolean) => {
+    setLikedIds((current) => {
+      const next = new Set(current)
+      if (liked) {
+        next.add(videoId)
+      } else {
+        next.delete(videoId)
+      }
+      return next
+    })
+  }
+
+  // Shows the change at once and puts it back if the request fails. Taps
+  // while a request for the same video is in flight are ignored. Logged out
+  // users are sent to log in first.
+  const toggleLike = useCallback(async (videoId: string) => {
+    if (!userId) {
+      navigate('/login')
+      return
+    }
+
+    if (likingRef.current.has(videoId)) return
+
+    const liked = !likedIds.has(videoId)
+    likingRef.current.add(videoId)
+    setLiked(videoId, liked)
+    setLikeCount(videoId, (likeCount) => Math.max(likeCount + (liked ? 1 : -1), 0))
+
+    try {
+      const likeCount = await (liked ? likeVideo(videoId) : unlikeVideo(videoId))
+      setLikeCount(videoId, () => likeCount)
+    } catch (error) {
+      console.error('Error updating like:', error)
+      setLiked(videoId, !liked)
+      setLikeCount(videoId, (likeCount) => Math.max(likeCount + (liked ? -1 : 1), 0))
+      toast.error(liked ? 'Failed to like video' : 'Failed to remove like')
+    } finally {
+      likingRef.current.delete(videoId)
+    }
+  }, [likedIds, userId, navigate])
+
+  useEffect(() => {
+    savedFeed = { userId, videos, likedIds, nextCursor, index }
+  }, [userId, videos, likedIds, nextCursor, index])
+
+  // After an error this waits for loadMore to be called again
+  useEffect(() => {
+    if (!error && index >= videos.length - LOAD_AHEAD) {
+      loadMore()
+    }
+  }, [index, videos.length, loadMore, error])
+
+  return { videos, likedIds, loading, error, hasMore, loadMore, toggleLike, index, setIndex }
+}
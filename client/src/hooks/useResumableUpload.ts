@@ -0,0 +1,72 @@
+import { useState, useRef, useEffect, useCallback } from 'react'
+import type { Upload } from 'tus-js-client'
+import { createResumableUpload } from '../services/supabaseClient'
+
+export type ResumableUploadStatus = 'idle' | 'uploading' | 'paused' | 'done'
+
+// Byte-accurate progress and pause/resume for a tus upload
+export const useResumableUpload = () => {
+  const uploadRef = useRef<Upload | null>(null)
+  const [status, setStatus] = useState<ResumableUploadStatus>('idle')
+  const [bytesUploaded, setBytesUploaded] = useState(0)
+  const [bytesTotal, setBytesTotal] = useState(0)
+
+  // Leaving the page pauses the upload; it can be continued later
+  useEffect(() => {
+    return () => {
+      uploadRef.current?.abort()
+    }
+  }, [])
+
+  // Resolves once the whole file is stored. An earlier, interrupted upload of
+  // the same file to the same path continues where it stopped.
+  const start = useCallback((file: File, path: string, token: string) => {
+    return new Promise<void>((resolve, reject) => {
+      const upload = createResumableUpload(file, path, token, {
+        onProgress: (uploaded, total) => {
+          setBytesUploaded(uploaded)
+          setBytesTotal(total)
+        },
+        onSuccess: () => {
+          setStatus('done')
+          resolve()
+        },
+        onError: (error) => {
+          setStatus('idle')
+          reject(error)
+        },
+      })
+
+      uploadRef.current = upload
+      setBytesUploaded(0)
+      setBytesTotal(file.size)
+      setStatus('uploading')
+
+      upload.findPreviousUploads()
+        .then((previousUploads) => {
+          if (previousUploads.length > 0) {
+            upload.resumeFromPreviousUpload(previousUploads[0])
+          }
+          upload.start()
+        })
+        .catch((error) => {
+          setStatus('idle')
+          reject(error)
+        })
+    })
+  }, [])
+
+  const pause = useCallback(async () => {
+    await uploadRef.current?.abort()
+    setStatus('paused')
+  }, [])
+
+  const resume = useCallback(() => {
+    uploadRef.current?.start()
+    setStatus('uploading')
+  }, [])
+
+  const progress = bytesTotal > 0 ? Math.floor((bytesUploaded / bytesTotal) * 100) : 0
+
+  return { status, bytesUploaded, bytesTotal, progress, start, pause, resume }
+}
@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from 'react'
+
+// Tracks a server-imposed lockout (HTTP 429 with retryAfter) and counts it down
+export const useRetryAfter = () => {
+  const [retryUntil, setRetryUntil] = useState<number | null>(null)
+  const [secondsLeft, setSecondsLeft] = useState(0)
+
+  useEffect(() => {
+    if (!retryUntil) {
+      return
+    }
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((retryUntil - Date.now()) / 1000))
+      setSecondsLeft(remaining)
+      if (remaining === 0) {
+        setRetryUntil(null)
+      }
+    }
+
+    tick()
+    const interval = setInterval(tick, 1000)
+    return () => clearInterval(interval)
+  }, [retryUntil])
+
+  // Start the countdown if the error is a 429 lockout. Returns true if it was.
+  const handleError = useCallback((error: any) => {
+    if (error?.response?.status === 429) {
+      const retryAfter = Number(error.response.data?.retryAfter) || 60
+      setRetryUntil(Date.now() + retryAfter * 1000)
+      return true
+    }
+    return false
+  }, [])
+
+  return { locked: secondsLeft > 0, secondsLeft, handleError }
+}
@@ -0,0 +1,96 @@
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useForm } from 'react-hook-form'
+import toast from 'react-hot-toast'
+import { authApi } from '../services/api'
+import Button from '../components/common/Button'
+import Input from '../components/common/Input'
+import type { ForgotPasswordData } from '../types'
+
+const ForgotPasswordPage: React.FC = () => {
+  const [submitting, setSubmitting] = useState(false)
+  const [submitted, setSubmitted] = useState(false)
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordData>()
+
+  const onSubmit = async (data: ForgotPasswordData) => {
+    try {
+      setSubmitting(true)
+      await authApi.requestPasswordReset(data.email)
+      setSubmitted(true)
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.error || 'Failed to request password reset'
+      toast.error(errorMessage)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Reset your password
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            We'll email you a link to choose a new password
+          </p>
+        </div>
+
+        {submitted ? (
+          <div className="p-4 bg-green-50 rounded-lg">
+            <p className="text-sm text-green-800">
+              If an account exists for that email, a reset link is on its way. The link
+              expires in one hour.
+            </p>
+          </div>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <Input
+              label="Email Address"
+              type="email"
+              autoComplete="email"
+              placeholder="Enter your email"
+              {...register('email', {
+                required: 'Email is required',
+                pattern: {
+                  value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                  message: 'Invalid email address',
+                },
+              })}
+              error={errors.email?.message}
+            />
+
+            <Button
+              type="submit"
+              size="lg"
+              loading={submitting}
+              disabled={submitting}
+              className="w-full"
+            >
+              Send Reset Link
+            </Button>
+          </form>
+        )}
+
+        <div className="text-center">
+          <p className="text-sm text-gray-600">
+            Remembered it?{' '}
+            <Link
+              to="/login"
+              className="font-medium text-primary-600 hover:text-primary-500"
+            >
+              Back to sign in
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ForgotPasswordPage
@@ -1,73 +1,104 @@
-import React, { useState, useEffect } from 'react'
-import { Heart, MessageCircle, Share2, Play, Pause } from 'lucide-react'
-import { supabase } from '../services/supabaseClient'
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react'
+import { ChevronUp, ChevronDown } from 'lucide-react'
 import { useAuth } from '../hooks/useAuth'
+import { useFeed } from '../hooks/useFeed'
 import Layout from '../components/layout/Layout'
-import type { Video } from '../types'
+import Button from '../components/common/Button'
+import FeedSlide from '../components/video/FeedSlide'
+import FeedSlideSkeleton from '../components/video/FeedSlideSkeleton'
 
 const HomePage: React.FC = () => {
   const { user } = useAuth()
-  const [videos, setVideos] = useState<Video[]>([])
-  const [loading, setLoading] = useState(true)
-  const [playingVideo, setPlayingVideo] = useState<string | null>(null)
+  const { videos, likedIds, error, hasMore, loadMore, toggleLike, index, setIndex } = useFeed()
+  const containerRef = useRef<HTMLDivElement>(null)
+  // Browsers only autoplay muted videos until the user interacts with the page
+  const [muted, setMuted] = useState(true)
+  const [paused, setPaused] = useState(false)
 
-  useEffect(() => {
-    if (user) {
-      fetchVideos()
+  // Coming back to the feed: return to the video that was in view. The index
+  // useFeed restored is read once, on mount; later changes come from scrolling,
+  // so scrolling to them again would fight the user.
+  const restoredIndex = useRef(index)
+  useLayoutEffect(() => {
+    const container = containerRef.current
+    if (container && restoredIndex.current > 0) {
+      container.scrollTop = restoredIndex.current * container.clientHeight
     }
-  }, [user])
-
-  const fetchVideos = async () => {
-    try {
-      setLoading(true)
-      const { data, error } = await supabase
-        .from('Video')
-        .select(`
-          *,
-          owner:User!Video_ownerId_fkey (
-            id,
-            username,
-            walletAddress
-          )
-        `)
-        .order('createdAt', { ascending: false })
-
-      if (error) {
-        console.error('Error fetching videos:', error)
+  }, [])
+
+  // The slide that is mostly in view plays; swiping is plain snap scrolling
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) {
+            setIndex(Number((entry.target as HTMLElement).dataset.index))
+          }
+        }
+      },
+      { root: container, threshold: 0.6 }
+    )
+
+    container.querySelectorAll('[data-index]').forEach((slide) => observer.observe(slide))
+    return () => observer.disconnect()
+  }, [videos.length])
+
+  useEffect(() => {
+    setPaused(false)
+  }, [index])
+
+  const toggleMute = useCallback(() => setMuted((current) => !current), [])
+  const muteAfterBlockedAutoplay = useCallback(() => setMuted(true), [])
+
+  const goTo = useCallback((target: number) => {
+    const container = containerRef.current
+    if (!container || target < 0 || target >= videos.length) return
+
+    container.scrollTo({ top: target * container.clientHeight, behavior: 'smooth' })
+  }, [videos.length])
+
+  // Arrow keys, j/k and Page Up/Down move between videos, m mutes, space pauses
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement
+      if (event.metaKey || event.ctrlKey || event.altKey || target.closest('input, textarea, select, [contenteditable="true"]')) {
         return
       }
 
-      setVideos(data || [])
-    } catch (error) {
-      console.error('Error fetching videos:', error)
-    } finally {
-      setLoading(false)
-    }
-  }
+      switch (event.key) {
+        case 'ArrowDown':
+        case 'PageDown':
+        case 'j':
+          goTo(index + 1)
+          break
+        case 'ArrowUp':
+        case 'PageUp':
+        case 'k':
+          goTo(index - 1)
+          break
+        case 'm':
+          setMuted((current) => !current)
+          break
+        case ' ':
+          // A focused button already handles space itself
+          if (target.closest('button')) return
+          setPaused((current) => !current)
+          break
+        default:
+          return
+      }
 
-  const toggleVideoPlay = (videoId: string) => {
-    if (playingVideo === videoId) {
-      setPlayingVideo(null)
-    } else {
-      setPlayingVideo(videoId)
+      event.preventDefault()
     }
-  }
 
-  const formatAddress = (address: string) => {
-    return `${address.slice(0, 6)}...${address.slice(-4)}`
-  }
-
-  if (loading) {
-    return (
-      <Layout>
-        <div className="flex items-center justify-center min-h-96">
-          <div className="loading-spinner w-12 h-12"></div>
-        </div>
-      </Layout>
-    )
-  }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [goTo, index])
 
-  if (videos.length === 0) {
+  if (videos.length === 0 && !hasMore) {
     return (
       <Layout>
         <div className="text-center py-12">
@@ -89,103 +120,61 @@ const HomePage: React.FC = () => {
   }
 
   return (
-    <Layout>
-      <div className="max-w-4xl mx-auto">
-        <h1 className="text-3xl font-bold text-gray-900 mb-8">
-          Video Feed
-        </h1>
-        
-        <div className="space-y-8">
-          {videos.map((video) => (
-            <div key={video.id} className="bg-white rounded-lg shadow-md overflow-hidden">
-              {/* Video Header */}
-              <div className="p-4 border-b border-gray-200">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-3">
-                    <div className="w-10 h-10 bg-gradient-to-br from-primary-500 to-primary-600 rounded-full flex items-center justify-center">
-                      <span className="text-white font-semibold text-sm">
-                        {video.owner?.username?.slice(0, 2).toUpperCase() || 'U'}
-                      </span>
-                    </div>
-                    <div>
-                      <h3 className="font-medium text-gray-900">
-                        {video.owner?.username || 'Unknown User'}
-                      </h3>
-                      <p className="text-sm text-gray-500">
-                        {formatAddress(video.owner?.walletAddress || '')}
-                      </p>
-                    </div>
-                  </div>
-                  <span className="text-sm text-gray-500">
-                    {new Date(video.createdAt).toLocaleDateString()}
-                  </span>
-                </div>
-              </div>
-
-              {/* Video Content */}
-              <div className="relative bg-black aspect-video">
-                <video
-                  src={video.videoUrl}
-                  className="w-full h-full object-cover"
-                  controls={false}
-                  muted
-                  loop
-                  ref={(el) => {
-                    if (el) {
-                      if (playingVideo === video.id) {
-                        el.play()
-                      } else {
-                        el.pause()
-                      }
-                    }
-                  }}
-                />
-                
-                {/* Play/Pause Overlay */}
-                <div className="absolute inset-0 flex items-center justify-center">
-                  <button
-                    onClick={() => toggleVideoPlay(video.id)}
-                    className="w-16 h-16 rounded-full bg-black/50 backdrop-blur-sm flex items-center justify-center text-white hover:bg-black/70 transition-colors"
-                  >
-                    {playingVideo === video.id ? (
-                      <Pause className="w-8 h-8" />
-                    ) : (
-                      <Play className="w-8 h-8 ml-1" />
-                    )}
-                  </button>
-                </div>
-
-                {/* Video Info Overlay */}
-                <div className="absolute bottom-4 left-4 right-4">
-                  <h4 className="text-white font-medium text-lg mb-2">
-                    {video.title}
-                  </h4>
-                </div>
-              </div>
-
-              {/* Video Actions */}
-              <div className="p-4">
-                <div className="flex items-center space-x-6">
-                  <button className="flex items-center space-x-2 text-gray-600 hover:text-red-500 transition-colors">
-                    <Heart className="w-5 h-5" />
-                    <span className="text-sm">Like</span>
-                  </button>
-                  <button className="flex items-center space-x-2 text-gray-600 hover:text-blue-500 transition-colors">
-                    <MessageCircle className="w-5 h-5" />
-                    <span className="text-sm">Comment</span>
-                  </button>
-                  <button className="flex items-center space-x-2 text-gray-600 hover:text-green-500 transition-colors">
-                    <Share2 className="w-5 h-5" />
-                    <span className="text-sm">Share</span>
-                  </button>
-                </div>
-              </div>
-            </div>
+    <Layout fullBleed>
+      <div className="relative h-full">
+        <div ref={containerRef} className="h-full overflow-y-scroll snap-y snap-mandatory overscroll-contain">
+          {videos.map((video, i) => (
+            <FeedSlide
+              key={video.id}
+              video={video}
+              index={i}
+              active={i === index}
+              upcoming={i === index + 1}
+              liked={likedIds.has(video.id)}
+              canLike={!!user}
+              muted={muted}
+              paused={paused}
+              onToggleLike={() => toggleLike(video.id)}
+              onToggleMute={toggleMute}
+              onAutoplayBlocked={muteAfterBlockedAutoplay}
+            />
           ))}
+
+          {/* Stands in for the next page while it loads */}
+          {hasMore && !error && <FeedSlideSkeleton />}
+
+          {error && (
+            <div className="h-full snap-start flex flex-col items-center justify-center text-center">
+              <p className="text-gray-300 mb-4">Couldn't load more videos</p>
+              <Button variant="secondary" onClick={loadMore}>
+                Try Again
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Touch screens swipe; on desktop there are buttons too */}
+        <div className="hidden md:flex flex-col space-y-3 absolute right-6 top-1/2 -translate-y-1/2">
+          <button
+            onClick={() => goTo(index - 1)}
+            disabled={index === 0}
+            className="action-button disabled:opacity-40 disabled:cursor-not-allowed"
+            aria-label="Previous video"
+          >
+            <ChevronUp className="w-6 h-6" />
+          </button>
+          <button
+            onClick={() => goTo(index + 1)}
+            disabled={index >= videos.length - 1}
+            className="action-button disabled:opacity-40 disabled:cursor-not-allowed"
+            aria-label="Next video"
+          >
+            <ChevronDown className="w-6 h-6" />
+          </button>
         </div>
       </div>
     </Layout>
   )
 }
 
-export default HomePage
\ No newline at end of file
+export default HomePage
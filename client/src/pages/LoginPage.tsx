@@ -1,28 +1,126 @@
 import React, { useState } from 'react'
 import { Link } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
+import { ShieldCheck, Wallet } from 'lucide-react'
 import { useAuth } from '../hooks/useAuth'
+import { useRetryAfter } from '../hooks/useRetryAfter'
+import { hasInjectedWallet } from '../services/wallet'
 import Button from '../components/common/Button'
 import Input from '../components/common/Input'
+import RetryAfterNotice from '../components/common/RetryAfterNotice'
 import type { LoginData } from '../types'
 
 const LoginPage: React.FC = () => {
-  const { login, loading } = useAuth()
+  const { login, loginWithWallet, completeMfaLogin, loading } = useAuth()
   const [showPassword, setShowPassword] = useState(false)
+  const [challengeToken, setChallengeToken] = useState<string | null>(null)
+  const { locked, secondsLeft, handleError } = useRetryAfter()
   const {
     register,
     handleSubmit,
     formState: { errors },
   } = useForm<LoginData>()
+  const {
+    register: registerCode,
+    handleSubmit: handleCodeSubmit,
+    formState: { errors: codeErrors },
+  } = useForm<{ code: string }>()
 
   const onSubmit = async (data: LoginData) => {
     try {
-      await login(data)
+      const challenge = await login(data)
+      if (challenge) {
+        setChallengeToken(challenge.challengeToken)
+      }
     } catch (error) {
-      // Error handling is done in useAuth hook
+      // Error toast is shown by useAuth hook, lockouts also get a countdown
+      handleError(error)
     }
   }
 
+  const onConnectWallet = async () => {
+    try {
+      const challenge = await loginWithWallet()
+      if (challenge) {
+        setChallengeToken(challenge.challengeToken)
+      }
+    } catch (error) {
+      // Error toast is shown by useAuth hook
+    }
+  }
+
+  const onCodeSubmit = async ({ code }: { code: string }) => {
+    if (!challengeToken) {
+      return
+    }
+
+    try {
+      await completeMfaLogin(challengeToken, code)
+    } catch (error: any) {
+      handleError(error)
+      // The challenge is short-lived, start over once it has expired
+      if (error.response?.data?.code === 'invalid_challenge') {
+        setChallengeToken(null)
+      }
+    }
+  }
+
+  if (challengeToken) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div>
+            <div className="mx-auto w-12 h-12 bg-primary-100 rounded-full flex items-center justify-center">
+              <ShieldCheck className="w-6 h-6 text-primary-600" />
+            </div>
+            <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+              Two-factor authentication
+            </h2>
+            <p className="mt-2 text-center text-sm text-gray-600">
+              Enter the 6-digit code from your authenticator app, or one of your backup codes
+            </p>
+          </div>
+
+          <form className="mt-8 space-y-6" onSubmit={handleCodeSubmit(onCodeSubmit)}>
+            <Input
+              label="Authentication Code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              autoFocus
+              placeholder="123456"
+              {...registerCode('code', {
+                required: 'Authentication code is required',
+              })}
+              error={codeErrors.code?.message}
+            />
+
+            <RetryAfterNotice secondsLeft={secondsLeft} />
+
+            <Button
+              type="submit"
+              size="lg"
+              loading={loading}
+              disabled={loading || locked}
+              className="w-full"
+            >
+              Verify
+            </Button>
+
+            <div className="text-center">
+              <button
+                type="button"
+                className="text-sm font-medium text-primary-600 hover:text-primary-500"
+                onClick={() => setChallengeToken(null)}
+              >
+                Back to sign in
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -76,21 +174,57 @@ const LoginPage: React.FC = () => {
                   Show password
                 </label>
               </div>
+              <Link
+                to="/forgot-password"
+                className="text-sm font-medium text-primary-600 hover:text-primary-500"
+              >
+                Forgot your password?
+              </Link>
             </div>
           </div>
 
+          <RetryAfterNotice secondsLeft={secondsLeft} />
+
           <div>
             <Button
               type="submit"
               size="lg"
               loading={loading}
-              disabled={loading}
+              disabled={loading || locked}
               className="w-full"
             >
               Sign In
             </Button>
           </div>
 
+          <div className="relative">
+            <div className="absolute inset-0 flex items-center">
+              <div className="w-full border-t border-gray-300" />
+            </div>
+            <div className="relative flex justify-center text-sm">
+              <span className="px-2 bg-gray-50 text-gray-500">or</span>
+            </div>
+          </div>
+
+          <div>
+            <Button
+              type="button"
+              variant="outline"
+              size="lg"
+              disabled={loading || !hasInjectedWallet()}
+              onClick={onConnectWallet}
+              className="w-full"
+            >
+              <Wallet className="w-5 h-5 mr-2" />
+              Connect wallet
+            </Button>
+            {!hasInjectedWallet() && (
+              <p className="mt-2 text-center text-xs text-gray-500">
+                Install a browser wallet such as MetaMask to sign in with your own wallet
+              </p>
+            )}
+          </div>
+
           <div className="text-center">
             <p className="text-sm text-gray-600">
               Don't have an account?{' '}
@@ -1,16 +1,27 @@
 import React, { useState, useEffect } from 'react'
-import { Wallet, Video, Calendar, Settings } from 'lucide-react'
+import { useNavigate } from 'react-router-dom'
+import { Wallet, Video, Calendar, Settings, Download, Pencil, Trash2, HardDrive } from 'lucide-react'
 import { useAuth } from '../hooks/useAuth'
 import { supabase } from '../services/supabaseClient'
 import Layout from '../components/layout/Layout'
 import Button from '../components/common/Button'
-import type { Video as VideoType } from '../types'
+import ExportWalletModal from '../components/wallet/ExportWalletModal'
+import EditVideoModal from '../components/video/EditVideoModal'
+import DeleteVideoModal from '../components/video/DeleteVideoModal'
+import DurationBadge from '../components/video/DurationBadge'
+import type { Video as VideoType, UserQuota } from '../types'
 
 const ProfilePage: React.FC = () => {
   const { user } = useAuth()
+  const navigate = useNavigate()
   const [userVideos, setUserVideos] = useState<VideoType[]>([])
   const [loading, setLoading] = useState(true)
   const [statsLoading, setStatsLoading] = useState(true)
+  const [exportOpen, setExportOpen] = useState(false)
+  const [editingVideo, setEditingVideo] = useState<VideoType | null>(null)
+  const [deletingVideo, setDeletingVideo] = useState<VideoType | null>(null)
+  const [quota, setQuota] = useState<UserQuota | null>(null)
+  const [quotaLoading, setQuotaLoading] = useState(true)
   const [stats, setStats] = useState({
     totalVideos: 0,
     totalViews: 0,
@@ -21,6 +32,7 @@ const ProfilePage: React.FC = () => {
     if (user) {
       fetchUserVideos()
       fetchUserStats()
+      fetchQuota()
     }
   }, [user])
 
@@ -71,6 +83,49 @@ const ProfilePage: React.FC = () => {
     }
   }
 
+  // Accounts that haven't published since quotas were added have no row yet
+  const fetchQuota = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('UserQuota')
+        .select('*')
+        .eq('userId', user?.id)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching quota:', error)
+        return
+      }
+
+      setQuota(data)
+    } catch (error) {
+      console.error('Error fetching quota:', error)
+    } finally {
+      setQuotaLoading(false)
+    }
+  }
+
+  const handleVideoUpdated = (updated: VideoType) => {
+    setUserVideos((videos) => videos.map((video) => (video.id === updated.id ? updated : video)))
+  }
+
+  const handleVideoDeleted = (videoId: string) => {
+    setUserVideos((videos) => videos.filter((video) => video.id !== videoId))
+    setStats((current) => ({ ...current, totalVideos: current.totalVideos - 1 }))
+    fetchQuota()
+  }
+
+  const formatBytes = (bytes: number) => {
+    if (bytes >= 1024 * 1024 * 1024) {
+      return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  }
+
+  // Uploads are counted per UTC day
+  const uploadsToday = quota && quota.uploadDay === new Date().toISOString().slice(0, 10) ? quota.uploadsToday : 0
+  const storagePercent = quota ? Math.min(100, Math.round((quota.bytesUsed / quota.maxBytes) * 100)) : 0
+
   const formatAddress = (address: string) => {
     return `${address.slice(0, 6)}...${address.slice(-4)}`
   }
@@ -128,7 +183,7 @@ const ProfilePage: React.FC = () => {
             </div>
             
             {/* Settings Button */}
-            <Button variant="outline" size="sm">
+            <Button variant="outline" size="sm" onClick={() => navigate('/settings')}>
               <Settings className="w-4 h-4 mr-2" />
               Settings
             </Button>
@@ -136,7 +191,7 @@ const ProfilePage: React.FC = () => {
         </div>
 
         {/* Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <div className="bg-white rounded-lg shadow-md p-6">
             <div className="flex items-center">
               <Video className="w-8 h-8 text-primary-600 mr-3" />
@@ -149,6 +204,36 @@ const ProfilePage: React.FC = () => {
             </div>
           </div>
           
+          {/* Storage quota */}
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <div className="flex items-center mb-3">
+              <HardDrive className="w-8 h-8 text-purple-600 mr-3" />
+              <div>
+                <p className="text-sm text-gray-600">Storage Used</p>
+                <p className="text-lg font-bold text-gray-900">
+                  {quotaLoading
+                    ? '...'
+                    : quota
+                      ? `${formatBytes(quota.bytesUsed)} / ${formatBytes(quota.maxBytes)}`
+                      : formatBytes(0)}
+                </p>
+              </div>
+            </div>
+            {quota && (
+              <>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className={`h-2 rounded-full ${storagePercent >= 90 ? 'bg-red-500' : 'bg-primary-600'}`}
+                    style={{ width: `${storagePercent}%` }}
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  {quota.videoCount} / {quota.maxVideos} videos · {uploadsToday} / {quota.dailyUploadLimit} uploads today
+                </p>
+              </>
+            )}
+          </div>
+          
           <div className="bg-white rounded-lg shadow-md p-6">
             <div className="flex items-center">
               <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center mr-3">
@@ -208,21 +293,64 @@ const ProfilePage: React.FC = () => {
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {userVideos.map((video) => (
                   <div key={video.id} className="group relative">
-                    <div className="aspect-video bg-gray-100 rounded-lg overflow-hidden">
-                      <video
-                        src={video.videoUrl}
-                        className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-200"
-                        muted
-                      />
+                    <div className="relative aspect-video bg-gray-100 rounded-lg overflow-hidden">
+                      {video.thumbnailUrl ? (
+                        <img
+                          src={video.thumbnailUrl}
+                          alt={video.title}
+                          loading="lazy"
+                          className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-200"
+                        />
+                      ) : (
+                        <video
+                          src={video.videoUrl}
+                          className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-200"
+                          muted
+                        />
+                      )}
                       <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-colors duration-200" />
+                      <DurationBadge seconds={video.durationSeconds} className="absolute bottom-2 right-2" />
+                      {/* Only processed videos are in the feed */}
+                      {video.processingStatus !== 'ready' && (
+                        <span
+                          className={`absolute top-2 left-2 px-2 py-0.5 rounded-full text-xs font-medium ${
+                            video.processingStatus === 'failed'
+                              ? 'bg-red-100 text-red-800'
+                              : 'bg-yellow-100 text-yellow-800'
+                          }`}
+                        >
+                          {video.processingStatus === 'failed' ? 'Processing failed' : 'Processing'}
+                        </span>
+                      )}
                     </div>
-                    <div className="mt-3">
-                      <h3 className="font-medium text-gray-900 truncate">
-                        {video.title}
-                      </h3>
-                      <p className="text-sm text-gray-500 mt-1">
-                        {new Date(video.createdAt).toLocaleDateString()}
-                      </p>
+                    <div className="mt-3 flex items-start justify-between">
+                      <div className="min-w-0">
+                        <h3 className="font-medium text-gray-900 truncate">
+                          {video.title}
+                        </h3>
+                        <p className="text-sm text-gray-500 mt-1">
+                          {new Date(video.createdAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      {/* Changes are signed with the custodial wallet, which SIWE users don't have */}
+                      {user.hasCustodialWallet !== false && (
+                        <div className="flex items-center space-x-1 ml-2 flex-shrink-0">
+                          <button
+                            onClick={() => setEditingVideo(video)}
+                            className="p-1.5 text-gray-500 hover:text-primary-600 transition-colors"
+                            title="Edit title"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => setDeletingVideo(video)}
+                            className="p-1.5 text-gray-500 hover:text-red-600 transition-colors"
+                            title="Delete video"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -233,9 +361,18 @@ const ProfilePage: React.FC = () => {
 
         {/* Wallet Info */}
         <div className="mt-8 p-6 bg-gradient-to-r from-blue-50 to-purple-50 rounded-lg">
-          <h3 className="text-lg font-medium text-gray-900 mb-3">
-            Your Web3 Wallet
-          </h3>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-medium text-gray-900">
+              Your Web3 Wallet
+            </h3>
+            {/* Only custodial wallets can be exported; SIWE users already hold their key */}
+            {user.hasCustodialWallet !== false && (
+              <Button variant="outline" size="sm" onClick={() => setExportOpen(true)}>
+                <Download className="w-4 h-4 mr-2" />
+                Export Keystore
+              </Button>
+            )}
+          </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <p className="text-sm text-gray-600 mb-1">Wallet Address</p>
@@ -252,6 +389,18 @@ const ProfilePage: React.FC = () => {
           </div>
         </div>
       </div>
+
+      <ExportWalletModal open={exportOpen} onClose={() => setExportOpen(false)} />
+      <EditVideoModal
+        video={editingVideo}
+        onClose={() => setEditingVideo(null)}
+        onUpdated={handleVideoUpdated}
+      />
+      <DeleteVideoModal
+        video={deletingVideo}
+        onClose={() => setDeletingVideo(null)}
+        onDeleted={handleVideoDeleted}
+      />
     </Layout>
   )
 }
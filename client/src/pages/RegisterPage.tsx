@@ -1,31 +1,138 @@
 import React, { useState } from 'react'
-import { Link } from 'react-router-dom'
+import { Link, useNavigate } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
+import { Copy, FileJson, ShieldAlert } from 'lucide-react'
+import toast from 'react-hot-toast'
 import { useAuth } from '../hooks/useAuth'
 import Button from '../components/common/Button'
 import Input from '../components/common/Input'
-import type { RegisterData } from '../types'
+import type { RegisterData, WalletImportType } from '../types'
 
 const RegisterPage: React.FC = () => {
   const { register: registerUser, loading } = useAuth()
   const [showPassword, setShowPassword] = useState(false)
+  const [recoveryPhrase, setRecoveryPhrase] = useState<string | null>(null)
+  const [phraseSaved, setPhraseSaved] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [keystoreFile, setKeystoreFile] = useState<{ name: string, json: string } | null>(null)
+  const navigate = useNavigate()
   const {
     register,
     handleSubmit,
     formState: { errors },
     watch,
-  } = useForm<RegisterData>()
+  } = useForm<RegisterData>({
+    // Drop the import fields from the submitted data when they are hidden
+    shouldUnregister: true,
+    defaultValues: { importType: 'mnemonic' },
+  })
 
   const password = watch('password')
+  const importType = watch('importType')
+
+  const handleKeystoreSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) {
+      setKeystoreFile({ name: file.name, json: await file.text() })
+    }
+  }
 
   const onSubmit = async (data: RegisterData) => {
+    if (importing && data.importType === 'keystore') {
+      if (!keystoreFile) {
+        toast.error('Please choose a keystore file')
+        return
+      }
+      data.importValue = keystoreFile.json
+    }
+
     try {
-      await registerUser(data)
+      const response = await registerUser(data)
+      if (response.recoveryPhrase) {
+        setRecoveryPhrase(response.recoveryPhrase)
+      } else {
+        // Imported recovery phrases double as the password reset phrase
+        toast.success('Use your wallet\'s recovery phrase if you ever need to reset your password')
+        navigate('/login')
+      }
     } catch (error) {
       // Error handling is done in useAuth hook
     }
   }
 
+  const copyPhrase = () => {
+    if (recoveryPhrase) {
+      navigator.clipboard.writeText(recoveryPhrase)
+      toast.success('Recovery phrase copied')
+    }
+  }
+
+  if (recoveryPhrase) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div>
+            <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+              Save your recovery phrase
+            </h2>
+            <p className="mt-2 text-center text-sm text-gray-600">
+              This is the only time it will be shown
+            </p>
+          </div>
+
+          <div className="p-4 bg-yellow-50 rounded-lg flex">
+            <ShieldAlert className="w-5 h-5 text-yellow-700 mr-3 flex-shrink-0" />
+            <p className="text-sm text-yellow-800">
+              If you forget your password, this phrase is the only way to reset it without
+              losing your wallet. Write it down and keep it somewhere safe. Anyone who has
+              it can take over your wallet.
+            </p>
+          </div>
+
+          <ol className="grid grid-cols-3 gap-2">
+            {recoveryPhrase.split(' ').map((word, index) => (
+              <li
+                key={index}
+                className="px-3 py-2 bg-white border border-gray-200 rounded-md text-sm font-mono text-gray-900"
+              >
+                <span className="text-gray-400 mr-1">{index + 1}.</span>
+                {word}
+              </li>
+            ))}
+          </ol>
+
+          <Button type="button" variant="outline" onClick={copyPhrase} className="w-full">
+            <Copy className="w-4 h-4 mr-2" />
+            Copy to clipboard
+          </Button>
+
+          <div className="flex items-center">
+            <input
+              id="phrase-saved"
+              type="checkbox"
+              className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+              checked={phraseSaved}
+              onChange={(e) => setPhraseSaved(e.target.checked)}
+            />
+            <label htmlFor="phrase-saved" className="ml-2 block text-sm text-gray-900">
+              I have written down my recovery phrase
+            </label>
+          </div>
+
+          <Button
+            type="button"
+            size="lg"
+            disabled={!phraseSaved}
+            onClick={() => navigate('/login')}
+            className="w-full"
+          >
+            Continue to Sign In
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -100,6 +207,122 @@ const RegisterPage: React.FC = () => {
                 Show passwords
               </label>
             </div>
+
+            <div className="flex items-center">
+              <input
+                id="import-wallet"
+                type="checkbox"
+                className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                checked={importing}
+                onChange={(e) => setImporting(e.target.checked)}
+              />
+              <label htmlFor="import-wallet" className="ml-2 block text-sm text-gray-900">
+                I already have a wallet
+              </label>
+            </div>
+
+            {/* Existing wallet to import instead of generating one */}
+            {importing && (
+              <div className="p-4 bg-white border border-gray-200 rounded-lg space-y-4">
+                <div className="flex space-x-4">
+                  {([
+                    ['mnemonic', 'Recovery phrase'],
+                    ['privateKey', 'Private key'],
+                    ['keystore', 'Keystore file'],
+                  ] as [WalletImportType, string][]).map(([value, label]) => (
+                    <label key={value} className="flex items-center text-sm text-gray-900">
+                      <input
+                        type="radio"
+                        value={value}
+                        className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 mr-2"
+                        {...register('importType')}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+
+                {importType === 'mnemonic' && (
+                  <div className="w-full">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Recovery Phrase
+                    </label>
+                    <textarea
+                      rows={3}
+                      autoComplete="off"
+                      spellCheck={false}
+                      placeholder="12 or 24 words separated by spaces"
+                      className={`input font-mono ${errors.importValue ? 'border-red-500 focus:ring-red-500' : 'border-gray-300 focus:ring-primary-500'}`}
+                      {...register('importValue', {
+                        required: 'Recovery phrase is required',
+                        validate: (value) =>
+                          [12, 15, 18, 21, 24].includes(value?.trim().split(/\s+/).length ?? 0) ||
+                          'Recovery phrase must have 12 to 24 words',
+                      })}
+                    />
+                    {errors.importValue && (
+                      <p className="mt-1 text-sm text-red-600">{errors.importValue.message}</p>
+                    )}
+                  </div>
+                )}
+
+                {importType === 'privateKey' && (
+                  <Input
+                    label="Private Key"
+                    type="password"
+                    autoComplete="off"
+                    placeholder="0x..."
+                    {...register('importValue', {
+                      required: 'Private key is required',
+                      pattern: {
+                        value: /^(0x)?[0-9a-fA-F]{64}$/,
+                        message: 'Private key must be 64 hex characters',
+                      },
+                    })}
+                    error={errors.importValue?.message}
+                  />
+                )}
+
+                {importType === 'keystore' && (
+                  <>
+                    <div>
+                      <input
+                        type="file"
+                        accept=".json,application/json"
+                        onChange={handleKeystoreSelect}
+                        className="hidden"
+                        id="keystore-file"
+                      />
+                      <label
+                        htmlFor="keystore-file"
+                        className="cursor-pointer flex items-center p-3 border-2 border-dashed border-gray-300 rounded-lg hover:border-primary-400 transition-colors"
+                      >
+                        <FileJson className="w-5 h-5 text-gray-400 mr-2" />
+                        <span className="text-sm text-gray-700 truncate">
+                          {keystoreFile ? keystoreFile.name : 'Choose a Keystore V3 (.json) file'}
+                        </span>
+                      </label>
+                    </div>
+
+                    <Input
+                      label="Keystore Password"
+                      type="password"
+                      autoComplete="off"
+                      placeholder="Password of the keystore file"
+                      {...register('keystorePassword', {
+                        required: 'Keystore password is required',
+                      })}
+                      error={errors.keystorePassword?.message}
+                    />
+                  </>
+                )}
+
+                <p className="text-xs text-gray-500">
+                  Your key is sent once over HTTPS and stored encrypted with your password,
+                  exactly like a generated wallet. Videos you upload will be signed by this address.
+                </p>
+              </div>
+            )}
           </div>
 
           <div>
@@ -131,8 +354,9 @@ const RegisterPage: React.FC = () => {
               What happens when you register:
             </h3>
             <ul className="text-sm text-blue-800 space-y-1">
-              <li>• A secure Ethereum wallet is automatically created for you</li>
+              <li>• A secure Ethereum wallet is automatically created for you, or you can import your own</li>
               <li>• Your wallet's private key is encrypted and stored safely</li>
+              <li>• You'll get a one-time recovery phrase to reset your password later</li>
               <li>• Your username will initially be set to your wallet address</li>
               <li>• You can change your username later in your profile</li>
             </ul>
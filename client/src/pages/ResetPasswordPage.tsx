@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import { useForm } from 'react-hook-form'
+import toast from 'react-hot-toast'
+import { authApi } from '../services/api'
+import Button from '../components/common/Button'
+import Input from '../components/common/Input'
+import type { ResetPasswordData } from '../types'
+
+const ResetPasswordPage: React.FC = () => {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token') || ''
+  const navigate = useNavigate()
+  const [verifying, setVerifying] = useState(true)
+  const [email, setEmail] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [showPassword, setShowPassword] = useState(false)
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    watch,
+  } = useForm<ResetPasswordData>()
+
+  const newPassword = watch('newPassword')
+
+  useEffect(() => {
+    const verifyToken = async () => {
+      try {
+        const response = await authApi.verifyResetToken(token)
+        setEmail(response.email)
+      } catch (error) {
+        setEmail(null)
+      } finally {
+        setVerifying(false)
+      }
+    }
+
+    if (token) {
+      verifyToken()
+    } else {
+      setVerifying(false)
+    }
+  }, [token])
+
+  const onSubmit = async (data: ResetPasswordData) => {
+    try {
+      setSubmitting(true)
+      await authApi.resetPassword(token, data.recoveryPhrase, data.newPassword)
+      toast.success('Password reset successfully! Please login.')
+      navigate('/login')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.error || 'Failed to reset password'
+      toast.error(errorMessage)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (verifying) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="loading-spinner w-12 h-12"></div>
+      </div>
+    )
+  }
+
+  if (!email) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-6 text-center">
+          <h2 className="text-3xl font-extrabold text-gray-900">
+            Link expired
+          </h2>
+          <p className="text-sm text-gray-600">
+            This password reset link is invalid or has already been used.
+          </p>
+          <Link
+            to="/forgot-password"
+            className="font-medium text-primary-600 hover:text-primary-500"
+          >
+            Request a new link
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Choose a new password
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Resetting the password for {email}
+          </p>
+        </div>
+
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+          <div className="space-y-4">
+            <div className="w-full">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Recovery Phrase
+              </label>
+              <textarea
+                rows={3}
+                autoComplete="off"
+                spellCheck={false}
+                placeholder="Enter the words of your recovery phrase, separated by spaces"
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary-500"
+                {...register('recoveryPhrase', {
+                  required: 'Recovery phrase is required',
+                  validate: (value) =>
+                    [12, 15, 18, 21, 24].includes(value.trim().split(/\s+/).length) ||
+                    'Recovery phrase should have 12 to 24 words',
+                })}
+              />
+              {errors.recoveryPhrase && (
+                <p className="mt-1 text-sm text-red-600">{errors.recoveryPhrase.message}</p>
+              )}
+            </div>
+
+            <Input
+              label="New Password"
+              type={showPassword ? 'text' : 'password'}
+              autoComplete="new-password"
+              placeholder="Create a new password"
+              {...register('newPassword', {
+                required: 'New password is required',
+                minLength: {
+                  value: 8,
+                  message: 'Password must be at least 8 characters long',
+                },
+                pattern: {
+                  value: /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+                  message: 'Password must contain at least one uppercase letter, one lowercase letter, and one number',
+                },
+              })}
+              error={errors.newPassword?.message}
+              helperText="Password must be at least 8 characters with uppercase, lowercase, and numbers"
+            />
+
+            <Input
+              label="Confirm New Password"
+              type={showPassword ? 'text' : 'password'}
+              autoComplete="new-password"
+              placeholder="Confirm your new password"
+              {...register('confirmNewPassword', {
+                required: 'Please confirm your new password',
+                validate: (value) =>
+                  value === newPassword || 'Passwords do not match',
+              })}
+              error={errors.confirmNewPassword?.message}
+            />
+
+            <div className="flex items-center">
+              <input
+                id="show-password"
+                type="checkbox"
+                className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                checked={showPassword}
+                onChange={(e) => setShowPassword(e.target.checked)}
+              />
+              <label htmlFor="show-password" className="ml-2 block text-sm text-gray-900">
+                Show passwords
+              </label>
+            </div>
+          </div>
+
+          <Button
+            type="submit"
+            size="lg"
+            loading={submitting}
+            disabled={submitting}
+            className="w-full"
+          >
+            Reset Password
+          </Button>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default ResetPasswordPage
@@ -0,0 +1,254 @@
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useForm } from 'react-hook-form'
+import { ArrowLeft, Copy, ShieldAlert, ShieldCheck, ShieldOff } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useAuth } from '../hooks/useAuth'
+import { useRetryAfter } from '../hooks/useRetryAfter'
+import { authApi } from '../services/api'
+import Layout from '../components/layout/Layout'
+import Button from '../components/common/Button'
+import Input from '../components/common/Input'
+import RetryAfterNotice from '../components/common/RetryAfterNotice'
+import type { TotpSetupResponse } from '../types'
+
+interface DisableTotpData {
+  password: string
+  totpCode: string
+}
+
+const SecurityPage: React.FC = () => {
+  const { user, updateUser } = useAuth()
+  const [setup, setSetup] = useState<TotpSetupResponse | null>(null)
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null)
+  const [working, setWorking] = useState(false)
+  const { locked, secondsLeft, handleError } = useRetryAfter()
+  const {
+    register: registerEnable,
+    handleSubmit: handleEnableSubmit,
+    formState: { errors: enableErrors },
+  } = useForm<{ code: string }>()
+  const {
+    register: registerDisable,
+    handleSubmit: handleDisableSubmit,
+    formState: { errors: disableErrors },
+    reset: resetDisable,
+  } = useForm<DisableTotpData>()
+
+  const startSetup = async () => {
+    try {
+      setWorking(true)
+      setSetup(await authApi.setupTotp())
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.error || 'Failed to start two-factor setup'
+      toast.error(errorMessage)
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const onEnable = async ({ code }: { code: string }) => {
+    try {
+      setWorking(true)
+      const response = await authApi.enableTotp(code)
+      setBackupCodes(response.backupCodes)
+      setSetup(null)
+      updateUser({ totpEnabled: true })
+      toast.success('Two-factor authentication enabled')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.error || 'Failed to enable two-factor authentication'
+      toast.error(errorMessage)
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const onDisable = async (data: DisableTotpData) => {
+    try {
+      setWorking(true)
+      await authApi.disableTotp(data.password, data.totpCode)
+      updateUser({ totpEnabled: false })
+      resetDisable()
+      toast.success('Two-factor authentication disabled')
+    } catch (error: any) {
+      handleError(error)
+      const errorMessage = error.response?.data?.error || 'Failed to disable two-factor authentication'
+      toast.error(errorMessage)
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const copyBackupCodes = () => {
+    if (backupCodes) {
+      navigator.clipboard.writeText(backupCodes.join('\n'))
+      toast.success('Backup codes copied')
+    }
+  }
+
+  return (
+    <Layout>
+      <div className="max-w-2xl mx-auto">
+        <Link
+          to="/settings"
+          className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to settings
+        </Link>
+
+        <h1 className="text-3xl font-bold text-gray-900 mb-8">
+          Security
+        </h1>
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center mb-4">
+            <ShieldCheck className="w-6 h-6 text-primary-600 mr-3" />
+            <h2 className="text-xl font-bold text-gray-900">
+              Two-Factor Authentication
+            </h2>
+          </div>
+
+          {backupCodes ? (
+            /* Backup codes, shown once right after enabling */
+            <div className="space-y-4">
+              <div className="p-4 bg-yellow-50 rounded-lg flex">
+                <ShieldAlert className="w-5 h-5 text-yellow-700 mr-3 flex-shrink-0" />
+                <p className="text-sm text-yellow-800">
+                  Save these backup codes somewhere safe. Each one can be used once in place
+                  of an authenticator code if you lose your device. They won't be shown again.
+                </p>
+              </div>
+
+              <ul className="grid grid-cols-2 gap-2">
+                {backupCodes.map((code) => (
+                  <li
+                    key={code}
+                    className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-md text-sm font-mono text-gray-900 text-center"
+                  >
+                    {code}
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex space-x-3">
+                <Button type="button" variant="outline" onClick={copyBackupCodes}>
+                  <Copy className="w-4 h-4 mr-2" />
+                  Copy codes
+                </Button>
+                <Button type="button" onClick={() => setBackupCodes(null)}>
+                  Done
+                </Button>
+              </div>
+            </div>
+          ) : user?.totpEnabled ? (
+            /* Disable */
+            <form onSubmit={handleDisableSubmit(onDisable)} className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Two-factor authentication is on. You'll be asked for a code when you sign in
+                and whenever your wallet signs something.
+              </p>
+
+              <Input
+                label="Password"
+                type="password"
+                autoComplete="current-password"
+                placeholder="Enter your password"
+                {...registerDisable('password', {
+                  required: 'Password is required',
+                })}
+                error={disableErrors.password?.message}
+              />
+
+              <Input
+                label="Authenticator Code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="6-digit code or backup code"
+                {...registerDisable('totpCode', {
+                  required: 'Authentication code is required',
+                })}
+                error={disableErrors.totpCode?.message}
+              />
+
+              <RetryAfterNotice secondsLeft={secondsLeft} />
+
+              <Button
+                type="submit"
+                variant="outline"
+                loading={working}
+                disabled={working || locked}
+                className="text-red-600 hover:text-red-700"
+              >
+                <ShieldOff className="w-4 h-4 mr-2" />
+                Disable two-factor authentication
+              </Button>
+            </form>
+          ) : setup ? (
+            /* Enrollment */
+            <form onSubmit={handleEnableSubmit(onEnable)} className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Scan this QR code with an authenticator app such as Google Authenticator,
+                1Password or Authy, then enter the 6-digit code it shows.
+              </p>
+
+              <div className="flex justify-center">
+                <img
+                  src={setup.qrCode}
+                  alt="Two-factor authentication QR code"
+                  className="w-48 h-48 border border-gray-200 rounded-lg"
+                />
+              </div>
+
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-xs text-gray-500 mb-1">
+                  Can't scan it? Enter this key manually:
+                </p>
+                <p className="text-sm font-mono text-gray-900 break-all">
+                  {setup.secret}
+                </p>
+              </div>
+
+              <Input
+                label="Authentication Code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                {...registerEnable('code', {
+                  required: 'Authentication code is required',
+                  pattern: {
+                    value: /^\d{6}$/,
+                    message: 'Enter the 6-digit code from your app',
+                  },
+                })}
+                error={enableErrors.code?.message}
+              />
+
+              <div className="flex space-x-3">
+                <Button type="submit" loading={working} disabled={working}>
+                  Enable
+                </Button>
+                <Button type="button" variant="ghost" onClick={() => setSetup(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          ) : (
+            /* Not enabled */
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Add a second step to sign in and to every wallet signature, using a code from
+                an authenticator app. A stolen password alone won't be enough to use your wallet.
+              </p>
+              <Button type="button" loading={working} disabled={working} onClick={startSetup}>
+                Set up two-factor authentication
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  )
+}
+
+export default SecurityPage
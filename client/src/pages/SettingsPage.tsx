@@ -0,0 +1,213 @@
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useForm } from 'react-hook-form'
+import { ArrowLeft, ChevronRight, KeyRound, MonitorSmartphone, ShieldCheck } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useAuth } from '../hooks/useAuth'
+import { authApi } from '../services/api'
+import Layout from '../components/layout/Layout'
+import Button from '../components/common/Button'
+import Input from '../components/common/Input'
+import type { ChangePasswordData } from '../types'
+
+const SettingsPage: React.FC = () => {
+  const { user, logoutAllDevices } = useAuth()
+  const [saving, setSaving] = useState(false)
+  const [signingOut, setSigningOut] = useState(false)
+  const [showPassword, setShowPassword] = useState(false)
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    watch,
+    reset,
+  } = useForm<ChangePasswordData>()
+
+  const newPassword = watch('newPassword')
+
+  const onSubmit = async (data: ChangePasswordData) => {
+    try {
+      setSaving(true)
+      await authApi.changePassword(data)
+      toast.success('Password changed successfully')
+      reset()
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.error || 'Failed to change password'
+      toast.error(errorMessage)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleLogoutAllDevices = async () => {
+    setSigningOut(true)
+    await logoutAllDevices()
+    setSigningOut(false)
+  }
+
+  return (
+    <Layout>
+      <div className="max-w-2xl mx-auto">
+        <Link
+          to="/profile"
+          className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to profile
+        </Link>
+
+        <h1 className="text-3xl font-bold text-gray-900 mb-8">
+          Settings
+        </h1>
+
+        {/* Password and 2FA only exist for accounts with a custodial wallet */}
+        {user?.hasCustodialWallet !== false && (
+          <>
+            {/* Change Password */}
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <div className="flex items-center mb-6">
+                <KeyRound className="w-6 h-6 text-primary-600 mr-3" />
+                <h2 className="text-xl font-bold text-gray-900">
+                  Change Password
+                </h2>
+              </div>
+
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                <Input
+                  label="Current Password"
+                  type={showPassword ? 'text' : 'password'}
+                  autoComplete="current-password"
+                  placeholder="Enter your current password"
+                  {...register('currentPassword', {
+                    required: 'Current password is required',
+                  })}
+                  error={errors.currentPassword?.message}
+                />
+
+                <Input
+                  label="New Password"
+                  type={showPassword ? 'text' : 'password'}
+                  autoComplete="new-password"
+                  placeholder="Create a new password"
+                  {...register('newPassword', {
+                    required: 'New password is required',
+                    minLength: {
+                      value: 8,
+                      message: 'Password must be at least 8 characters long',
+                    },
+                    pattern: {
+                      value: /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+                      message: 'Password must contain at least one uppercase letter, one lowercase letter, and one number',
+                    },
+                    validate: (value, values) =>
+                      value !== values.currentPassword || 'New password must be different from the current password',
+                  })}
+                  error={errors.newPassword?.message}
+                  helperText="Password must be at least 8 characters with uppercase, lowercase, and numbers"
+                />
+
+                <Input
+                  label="Confirm New Password"
+                  type={showPassword ? 'text' : 'password'}
+                  autoComplete="new-password"
+                  placeholder="Confirm your new password"
+                  {...register('confirmNewPassword', {
+                    required: 'Please confirm your new password',
+                    validate: (value) =>
+                      value === newPassword || 'Passwords do not match',
+                  })}
+                  error={errors.confirmNewPassword?.message}
+                />
+
+                {user?.totpEnabled && (
+                  <Input
+                    label="Authenticator Code"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    placeholder="6-digit code or backup code"
+                    {...register('totpCode', {
+                      required: 'Authentication code is required',
+                    })}
+                    error={errors.totpCode?.message}
+                  />
+                )}
+
+                <div className="flex items-center">
+                  <input
+                    id="show-password"
+                    type="checkbox"
+                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                    checked={showPassword}
+                    onChange={(e) => setShowPassword(e.target.checked)}
+                  />
+                  <label htmlFor="show-password" className="ml-2 block text-sm text-gray-900">
+                    Show passwords
+                  </label>
+                </div>
+
+                <Button
+                  type="submit"
+                  loading={saving}
+                  disabled={saving}
+                >
+                  Change Password
+                </Button>
+              </form>
+
+              <div className="mt-6 p-4 bg-blue-50 rounded-lg">
+                <p className="text-sm text-blue-800">
+                  Your wallet's private key is encrypted with your password. Changing it here
+                  re-encrypts the key under your new password, so your wallet stays accessible.
+                  Other devices are signed out.
+                </p>
+              </div>
+            </div>
+
+            {/* Two-Factor Authentication */}
+            <Link
+              to="/security"
+              className="bg-white rounded-lg shadow-md p-6 mt-8 flex items-center justify-between hover:shadow-lg transition-shadow"
+            >
+              <div className="flex items-center">
+                <ShieldCheck className="w-6 h-6 text-primary-600 mr-3" />
+                <div>
+                  <h2 className="text-xl font-bold text-gray-900">
+                    Two-Factor Authentication
+                  </h2>
+                  <p className="text-sm text-gray-600">
+                    {user?.totpEnabled ? 'Enabled' : 'Not enabled'}
+                  </p>
+                </div>
+              </div>
+              <ChevronRight className="w-5 h-5 text-gray-400" />
+            </Link>
+          </>
+        )}
+
+        {/* Sessions */}
+        <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+          <div className="flex items-center mb-4">
+            <MonitorSmartphone className="w-6 h-6 text-primary-600 mr-3" />
+            <h2 className="text-xl font-bold text-gray-900">
+              Sessions
+            </h2>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            Lost a device or signed in somewhere you don't trust? Sign out everywhere,
+            including this browser.
+          </p>
+          <Button
+            variant="outline"
+            loading={signingOut}
+            disabled={signingOut}
+            onClick={handleLogoutAllDevices}
+          >
+            Sign out all devices
+          </Button>
+        </div>
+      </div>
+    </Layout>
+  )
+}
+
+export default SettingsPage
@@ -1,28 +1,60 @@
 import React, { useState } from 'react'
 import { useForm } from 'react-hook-form'
-import { Upload, Video, X } from 'lucide-react'
+import { Upload, Video, X, Pause, Play } from 'lucide-react'
 import toast from 'react-hot-toast'
 import { useAuth } from '../hooks/useAuth'
-import { uploadVideo, getPublicUrl } from '../services/supabaseClient'
+import { useRetryAfter } from '../hooks/useRetryAfter'
+import { useResumableUpload } from '../hooks/useResumableUpload'
 import { videoApi } from '../services/api'
+import { hashFile } from '../services/contentHash'
+import {
+  findPendingUpload,
+  getPendingUploads,
+  removePendingUpload,
+  savePendingUpload,
+} from '../services/pendingUploads'
 import Layout from '../components/layout/Layout'
 import Button from '../components/common/Button'
 import Input from '../components/common/Input'
+import RetryAfterNotice from '../components/common/RetryAfterNotice'
 import type { UploadVideoData } from '../types'
 
+// Offered on upload; the choice is part of the signed manifest
+const LICENSES = [
+  'All rights reserved',
+  'CC BY 4.0',
+  'CC BY-SA 4.0',
+  'CC BY-NC 4.0',
+  'CC0 1.0',
+]
+
+// Errors after which the reserved upload can't be published, so it's forgotten
+const DISCARD_UPLOAD_CODES = [
+  'upload_not_reserved',
+  'upload_already_published',
+  'upload_mismatch',
+  'content_hash_mismatch',
+]
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(2)} MB`
+
 const UploadPage: React.FC = () => {
   const { user } = useAuth()
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [previewUrl, setPreviewUrl] = useState<string | null>(null)
   const [uploading, setUploading] = useState(false)
-  const [uploadProgress, setUploadProgress] = useState(0)
+  const [pendingUploads, setPendingUploads] = useState(getPendingUploads)
+  const { locked, secondsLeft, handleError } = useRetryAfter()
+  const resumable = useResumableUpload()
   
   const {
     register,
     handleSubmit,
     formState: { errors },
     reset,
-  } = useForm<UploadVideoData>()
+  } = useForm<UploadVideoData>({
+    defaultValues: { license: LICENSES[0] },
+  })
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
@@ -68,65 +100,102 @@ const UploadPage: React.FC = () => {
 
     try {
       setUploading(true)
-      setUploadProgress(0)
       
-      // Generate unique filename
-      const fileExtension = selectedFile.name.split('.').pop()
-      const fileName = `${user.id}/${Date.now()}.${fileExtension}`
+      // Hash the file before it leaves the browser. The server hashes the stored
+      // copy itself and rejects the upload if the two don't match.
+      toast.loading('Preparing video...', { id: 'upload' })
+      const contentHash = await hashFile(selectedFile)
       
-      // Upload video to Supabase Storage
-      toast.loading('Uploading video...', { id: 'upload' })
-      setUploadProgress(25)
+      // Reuse the reservation of an earlier attempt with this file, otherwise
+      // the server checks type and size and picks where the file goes
+      const pending = findPendingUpload(selectedFile)
+      const reservation = pending?.reservation ?? await videoApi.createUpload({
+        contentType: selectedFile.type,
+        size: selectedFile.size,
+      })
       
-      const { data: uploadData, error: uploadError } = await uploadVideo(
-        selectedFile,
-        fileName
-      )
-      
-      if (uploadError) {
-        throw new Error(uploadError.message)
+      // Upload video to Supabase Storage, unless an earlier attempt already did
+      if (!pending?.uploaded) {
+        savePendingUpload(selectedFile, reservation)
+        toast.loading('Uploading video...', { id: 'upload' })
+        await resumable.start(selectedFile, reservation.path, reservation.token)
+        savePendingUpload(selectedFile, reservation, true)
       }
       
-      setUploadProgress(50)
-      
-      // Get public URL
-      const publicUrl = getPublicUrl(uploadData.path)
-      
-      setUploadProgress(75)
-      
       // Save metadata using Edge Function
       toast.loading('Saving video metadata...', { id: 'upload' })
       
-      await videoApi.uploadMetadata(
-        publicUrl,
-        data.title,
-        data.password
-      )
+      await videoApi.uploadMetadata({
+        path: reservation.path,
+        title: data.title,
+        password: data.password,
+        totpCode: data.totpCode,
+        contentHash,
+        license: data.license,
+      })
       
-      setUploadProgress(100)
+      removePendingUpload(selectedFile)
       
-      toast.success('Video uploaded successfully!', { id: 'upload' })
+      // It joins the feed once the media worker has transcoded it
+      toast.success('Video uploaded! It will appear in the feed once it has been processed', { id: 'upload' })
       
       // Reset form
       reset()
       removeFile()
-      setUploadProgress(0)
       
     } catch (error: any) {
       console.error('Upload error:', error)
+      handleError(error)
+      if (DISCARD_UPLOAD_CODES.includes(error.response?.data?.code)) {
+        removePendingUpload(selectedFile)
+      }
       const errorMessage = error.response?.data?.error || error.message || 'Upload failed'
       toast.error(errorMessage, { id: 'upload' })
     } finally {
       setUploading(false)
+      setPendingUploads(getPendingUploads())
     }
   }
 
+  const unfinishedUploads = pendingUploads.filter(
+    (upload) => !selectedFile || upload.fileName !== selectedFile.name || upload.size !== selectedFile.size
+  )
+
   return (
     <Layout>
       <div className="max-w-2xl mx-auto">
         <h1 className="text-3xl font-bold text-gray-900 mb-8">
           Upload Video
         </h1>
+
+        {/* Wallet-only accounts have no server-side key to sign with */}
+        {user?.hasCustodialWallet === false && (
+          <div className="mb-6 p-4 bg-yellow-50 rounded-lg">
+            <p className="text-sm text-yellow-800">
+              You signed in with your own wallet. Uploading currently requires an account
+              with a Web3TikTok wallet, created with email and password.
+            </p>
+          </div>
+        )}
+        
+        {/* Uploads interrupted by a reload or a failed publish */}
+        {unfinishedUploads.length > 0 && (
+          <div className="mb-6 p-4 bg-blue-50 rounded-lg">
+            <p className="text-sm font-medium text-blue-900 mb-1">
+              You have unfinished uploads
+            </p>
+            <ul className="text-sm text-blue-800 space-y-1">
+              {unfinishedUploads.map((upload) => (
+                <li key={upload.fingerprint}>
+                  • {upload.fileName} ({formatMegabytes(upload.size)}){upload.uploaded ? ', ready to publish' : ''}
+                </li>
+              ))}
+            </ul>
+            <p className="text-sm text-blue-800 mt-2">
+              Select the same file again to continue where it stopped.
+            </p>
+          </div>
+        )}
         
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
           {/* File Upload Area */}
@@ -139,7 +208,7 @@ const UploadPage: React.FC = () => {
               <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-primary-400 transition-colors">
                 <input
                   type="file"
-                  accept="video/*"
+                  accept="video/mp4,video/quicktime,video/webm,video/x-msvideo"
                   onChange={handleFileSelect}
                   className="hidden"
                   id="video-upload"
@@ -153,7 +222,7 @@ const UploadPage: React.FC = () => {
                     Choose video to upload
                   </span>
                   <span className="text-sm text-gray-500">
-                    MP4, MOV, AVI up to 100MB
+                    MP4, MOV, WebM, AVI up to 100MB
                   </span>
                 </label>
               </div>
@@ -167,7 +236,7 @@ const UploadPage: React.FC = () => {
                         {selectedFile.name}
                       </p>
                       <p className="text-sm text-gray-500">
-                        {(selectedFile.size / (1024 * 1024)).toFixed(2)} MB
+                        {formatMegabytes(selectedFile.size)}
                       </p>
                     </div>
                   </div>
@@ -176,6 +245,7 @@ const UploadPage: React.FC = () => {
                     variant="ghost"
                     size="sm"
                     onClick={removeFile}
+                    disabled={uploading}
                     className="text-red-600 hover:text-red-700"
                   >
                     <X className="w-4 h-4" />
@@ -214,6 +284,27 @@ const UploadPage: React.FC = () => {
             helperText="Make it descriptive and engaging!"
           />
 
+          {/* License */}
+          <div className="w-full">
+            <label htmlFor="license" className="block text-sm font-medium text-gray-700 mb-1">
+              License
+            </label>
+            <select
+              id="license"
+              className="input border-gray-300 focus:ring-primary-500"
+              {...register('license')}
+            >
+              {LICENSES.map((license) => (
+                <option key={license} value={license}>
+                  {license}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-sm text-gray-500">
+              Signed together with your video, so anyone can check the terms you chose
+            </p>
+          </div>
+
           {/* Password for Wallet Signing */}
           <Input
             label="Password"
@@ -226,32 +317,61 @@ const UploadPage: React.FC = () => {
             helperText="This is used to decrypt your wallet and sign the video as proof of ownership"
           />
 
+          {/* Second factor for accounts with 2FA */}
+          {user?.totpEnabled && (
+            <Input
+              label="Authenticator Code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="6-digit code or backup code"
+              {...register('totpCode', {
+                required: 'Authentication code is required to sign the video',
+              })}
+              error={errors.totpCode?.message}
+            />
+          )}
+
           {/* Upload Progress */}
-          {uploading && (
+          {uploading && (resumable.status === 'uploading' || resumable.status === 'paused') && (
             <div className="bg-gray-50 rounded-lg p-4">
               <div className="flex items-center justify-between mb-2">
                 <span className="text-sm font-medium text-gray-700">
-                  Uploading...
-                </span>
-                <span className="text-sm text-gray-500">
-                  {uploadProgress}%
+                  {resumable.status === 'paused' ? 'Paused' : 'Uploading...'}
                 </span>
+                <div className="flex items-center space-x-3">
+                  <span className="text-sm text-gray-500">
+                    {formatMegabytes(resumable.bytesUploaded)} / {formatMegabytes(resumable.bytesTotal)} ({resumable.progress}%)
+                  </span>
+                  {resumable.status === 'paused' ? (
+                    <Button type="button" variant="ghost" size="sm" onClick={resumable.resume}>
+                      <Play className="w-4 h-4 mr-1" />
+                      Resume
+                    </Button>
+                  ) : (
+                    <Button type="button" variant="ghost" size="sm" onClick={resumable.pause}>
+                      <Pause className="w-4 h-4 mr-1" />
+                      Pause
+                    </Button>
+                  )}
+                </div>
               </div>
               <div className="w-full bg-gray-200 rounded-full h-2">
                 <div
                   className="bg-primary-600 h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${uploadProgress}%` }}
+                  style={{ width: `${resumable.progress}%` }}
                 />
               </div>
             </div>
           )}
 
+          <RetryAfterNotice secondsLeft={secondsLeft} />
+
           {/* Submit Button */}
           <Button
             type="submit"
             size="lg"
             loading={uploading}
-            disabled={uploading || !selectedFile}
+            disabled={uploading || !selectedFile || locked || user?.hasCustodialWallet === false}
             className="w-full"
           >
             {uploading ? 'Uploading...' : 'Upload Video'}
@@ -264,11 +384,11 @@ const UploadPage: React.FC = () => {
             How Video Upload Works
           </h3>
           <ul className="text-sm text-blue-800 space-y-2">
-            <li>• Your video is uploaded directly to secure cloud storage</li>
-            <li>• Video metadata is signed with your Ethereum wallet</li>
+            <li>• Your video is uploaded directly to secure cloud storage, in chunks that resume after a dropped connection</li>
+            <li>• The video's SHA-256 fingerprint, title and license are signed with your Ethereum wallet (EIP-712)</li>
             <li>• This creates cryptographic proof of ownership</li>
             <li>• Your password is used only to decrypt your wallet temporarily</li>
-            <li>• Videos are processed and become available immediately</li>
+            <li>• Videos are then transcoded for smooth streaming and appear in the feed once they're ready</li>
           </ul>
         </div>
       </div>
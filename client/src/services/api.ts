@@ -4,7 +4,25 @@ import type {
   LoginData, 
   AuthResponse, 
   RegisterResponse, 
-  VideoUploadResponse 
+  VideoUploadResponse,
+  UploadMetadataData,
+  CreateUploadData,
+  CreateUploadResponse,
+  VerifyVideoResponse,
+  FeedResponse,
+  UpdateVideoData,
+  UpdateVideoResponse,
+  DeleteVideoData,
+  DeleteVideoResponse,
+  ChangePasswordData,
+  ExportWalletData,
+  ExportWalletResponse,
+  VerifyResetTokenResponse,
+  RefreshResponse,
+  MfaChallengeResponse,
+  SiweNonceResponse,
+  TotpSetupResponse,
+  TotpEnableResponse
 } from '../types'
 
 const API_BASE_URL = import.meta.env.VITE_SUPABASE_URL
@@ -31,17 +49,68 @@ api.interceptors.request.use(
   }
 )
 
+const clearSession = () => {
+  localStorage.removeItem('auth_token')
+  localStorage.removeItem('refresh_token')
+  localStorage.removeItem('user')
+}
+
+// Exchange the stored refresh token for a new token pair. Concurrent 401s share
+// one refresh request, since each refresh token can only be used once.
+let refreshPromise: Promise<string> | null = null
+
+export const refreshAccessToken = () => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = localStorage.getItem('refresh_token')
+      if (!refreshToken) {
+        throw new Error('No refresh token')
+      }
+
+      // Use a bare axios call so this request skips the interceptors below
+      const response = await axios.post<RefreshResponse>(
+        `${API_BASE_URL}${FUNCTIONS_PATH}/refresh`,
+        { refreshToken }
+      )
+
+      localStorage.setItem('auth_token', response.data.token)
+      localStorage.setItem('refresh_token', response.data.refreshToken)
+      return response.data.token
+    })().finally(() => {
+      refreshPromise = null
+    })
+  }
+
+  return refreshPromise
+}
+
 // Response interceptor to handle auth errors
 api.interceptors.response.use(
   (response) => {
     return response
   },
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid
-      localStorage.removeItem('auth_token')
-      localStorage.removeItem('user')
-      window.location.href = '/login'
+  async (error) => {
+    const originalRequest = error.config
+
+    // Only an expired or revoked access token triggers a refresh. Other 401s
+    // (such as a wrong wallet password) are passed through to the caller.
+    if (
+      error.response?.status === 401 &&
+      error.response?.data?.code === 'invalid_token' &&
+      originalRequest &&
+      !originalRequest._retry
+    ) {
+      originalRequest._retry = true
+
+      try {
+        const token = await refreshAccessToken()
+        originalRequest.headers.Authorization = `Bearer ${token}`
+        return api(originalRequest)
+      } catch (refreshError) {
+        // Session is gone, start over from the login page
+        clearSession()
+        window.location.href = '/login'
+      }
     }
     return Promise.reject(error)
   }
@@ -52,37 +121,140 @@ export const authApi = {
     const response = await api.post('/register', {
       email: data.email,
       password: data.password,
+      importWallet: data.importType
+        ? {
+            type: data.importType,
+            value: data.importValue,
+            keystorePassword: data.keystorePassword,
+          }
+        : undefined,
     })
     return response.data
   },
 
-  login: async (data: LoginData): Promise<AuthResponse> => {
+  login: async (data: LoginData): Promise<AuthResponse | MfaChallengeResponse> => {
     const response = await api.post('/login', {
       email: data.email,
       password: data.password,
     })
     return response.data
   },
+
+  loginMfa: async (challengeToken: string, code: string): Promise<AuthResponse> => {
+    const response = await api.post('/login-mfa', { challengeToken, code })
+    return response.data
+  },
+
+  getSiweNonce: async (): Promise<SiweNonceResponse> => {
+    const response = await api.post('/siwe-nonce')
+    return response.data
+  },
+
+  siweLogin: async (
+    message: string,
+    signature: string
+  ): Promise<AuthResponse | MfaChallengeResponse> => {
+    const response = await api.post('/siwe-login', { message, signature })
+    return response.data
+  },
+
+  logout: async (allDevices = false): Promise<{ message: string }> => {
+    const response = await api.post('/logout', {
+      refreshToken: localStorage.getItem('refresh_token'),
+      allDevices,
+    })
+    return response.data
+  },
+
+  changePassword: async (data: ChangePasswordData): Promise<{ message: string }> => {
+    const response = await api.post('/change-password', {
+      currentPassword: data.currentPassword,
+      newPassword: data.newPassword,
+      totpCode: data.totpCode || undefined,
+    })
+    return response.data
+  },
+
+  setupTotp: async (): Promise<TotpSetupResponse> => {
+    const response = await api.post('/totp-setup')
+    return response.data
+  },
+
+  enableTotp: async (code: string): Promise<TotpEnableResponse> => {
+    const response = await api.post('/totp-enable', { code })
+    return response.data
+  },
+
+  disableTotp: async (password: string, totpCode: string): Promise<{ message: string }> => {
+    const response = await api.post('/totp-disable', { password, totpCode })
+    return response.data
+  },
+
+  requestPasswordReset: async (email: string): Promise<{ message: string }> => {
+    const response = await api.post('/request-password-reset', { email })
+    return response.data
+  },
+
+  verifyResetToken: async (token: string): Promise<VerifyResetTokenResponse> => {
+    const response = await api.post('/verify-reset-token', { token })
+    return response.data
+  },
+
+  resetPassword: async (
+    token: string,
+    recoveryPhrase: string,
+    newPassword: string
+  ): Promise<{ message: string }> => {
+    const response = await api.post('/reset-password', {
+      token,
+      recoveryPhrase,
+      newPassword,
+    })
+    return response.data
+  },
 }
 
-export const videoApi = {
-  uploadMetadata: async (
-    videoUrl: string,
-    title: string,
-    password: string
-  ): Promise<VideoUploadResponse> => {
-    const response = await api.post('/upload-video-metadata', {
-      videoUrl,
-      title,
-      password,
+export const walletApi = {
+  exportKeystore: async (data: ExportWalletData): Promise<ExportWalletResponse> => {
+    const response = await api.post('/export-wallet', {
+      password: data.password,
+      exportPassphrase: data.exportPassphrase,
+      totpCode: data.totpCode || undefined,
     })
     return response.data
   },
+}
+
+export const videoApi = {
+  createUpload: async (data: CreateUploadData): Promise<CreateUploadResponse> => {
+    const response = await api.post('/create-upload', data)
+    return response.data
+  },
 
-  getVideos: async () => {
-    // This would be implemented with Supabase client directly
-    // since we need to query the database for videos
-    throw new Error('Not implemented - use Supabase client directly')
+  uploadMetadata: async (data: UploadMetadataData): Promise<VideoUploadResponse> => {
+    const response = await api.post('/upload-video-metadata', data)
+    return response.data
+  },
+
+  verify: async (videoId: string): Promise<VerifyVideoResponse> => {
+    const response = await api.post('/verify-video', { videoId })
+    return response.data
+  },
+
+  update: async (data: UpdateVideoData): Promise<UpdateVideoResponse> => {
+    const response = await api.post('/update-video', data)
+    return response.data
+  },
+
+  remove: async (data: DeleteVideoData): Promise<DeleteVideoResponse> => {
+    const response = await api.post('/delete-video', data)
+    return response.data
+  },
+
+  // Ready videos, newest first. Pass the previous page's nextCursor for the next one.
+  feed: async (cursor: string | null = null, limit?: number): Promise<FeedResponse> => {
+    const response = await api.post('/feed', { cursor, limit })
+    return response.data
   },
 }
 
@@ -0,0 +1,8 @@
+// SHA-256 of a file as lowercase hex, the same format the server stores in
+// "contentHash". Used to check an upload (or a download) against the signed hash.
+export const hashFile = async (file: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
@@ -0,0 +1,37 @@
+import { supabase } from './supabaseClient'
+
+// Likes go straight to the database as the logged in user. The RPCs return
+// the video's like count after the change, which a trigger keeps up to date.
+
+export const likeVideo = async (videoId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('like_video', { p_video_id: videoId })
+  if (error) {
+    throw error
+  }
+  return data
+}
+
+export const unlikeVideo = async (videoId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('unlike_video', { p_video_id: videoId })
+  if (error) {
+    throw error
+  }
+  return data
+}
+
+// Which of these videos the user has liked. RLS only returns their own likes.
+export const getLikedVideoIds = async (videoIds: string[]): Promise<string[]> => {
+  if (videoIds.length === 0) {
+    return []
+  }
+
+  const { data, error } = await supabase
+    .from('VideoLike')
+    .select('videoId')
+    .in('videoId', videoIds)
+
+  if (error) {
+    throw error
+  }
+  return data.map((like) => like.videoId)
+}
@@ -0,0 +1,48 @@
+import type { CreateUploadResponse } from '../types'
+
+// Reservations for uploads that haven't been published yet, so an interrupted
+// upload can continue after a page reload. Browsers can't keep the File itself:
+// the user selects it again and it's matched by name, size and modification time.
+const STORAGE_KEY = 'pending_uploads'
+
+export interface PendingUpload {
+  fingerprint: string
+  fileName: string
+  size: number
+  reservation: CreateUploadResponse
+  uploaded: boolean // the file is stored, only publishing is left
+}
+
+const fileFingerprint = (file: File) => `${file.name}-${file.size}-${file.lastModified}`
+
+const readPendingUploads = (): PendingUpload[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+  } catch (error) {
+    return []
+  }
+}
+
+const writePendingUploads = (uploads: PendingUpload[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(uploads))
+}
+
+// A reservation is only usable while its signed upload token is valid
+export const getPendingUploads = () =>
+  readPendingUploads().filter((upload) => new Date(upload.reservation.expiresAt).getTime() > Date.now())
+
+export const findPendingUpload = (file: File) =>
+  getPendingUploads().find((upload) => upload.fingerprint === fileFingerprint(file)) ?? null
+
+export const savePendingUpload = (file: File, reservation: CreateUploadResponse, uploaded = false) => {
+  const fingerprint = fileFingerprint(file)
+  writePendingUploads([
+    ...getPendingUploads().filter((upload) => upload.fingerprint !== fingerprint),
+    { fingerprint, fileName: file.name, size: file.size, reservation, uploaded },
+  ])
+}
+
+export const removePendingUpload = (file: File) => {
+  const fingerprint = fileFingerprint(file)
+  writePendingUploads(getPendingUploads().filter((upload) => upload.fingerprint !== fingerprint))
+}
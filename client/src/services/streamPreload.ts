@@ -0,0 +1,38 @@
+// Warms the HTTP cache with the start of an HLS stream, so the next video in
+// the feed starts at once without a second <video> element decoding in the
+// background. hls.js starts on the lowest rendition, which the media worker
+// lists first in the master playlist.
+const preloaded = new Set<string>()
+
+const firstUri = (playlist: string) =>
+  playlist
+    .split('\n')
+    .map((line) => line.trim())
+    .find((line) => line && !line.startsWith('#'))
+
+const fetchText = async (url: string) => {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}`)
+  }
+  return response.text()
+}
+
+export const preloadStream = async (hlsUrl: string) => {
+  if (preloaded.has(hlsUrl)) return
+  preloaded.add(hlsUrl)
+
+  try {
+    const variant = firstUri(await fetchText(hlsUrl))
+    if (!variant) return
+
+    const variantUrl = new URL(variant, hlsUrl).href
+    const segment = firstUri(await fetchText(variantUrl))
+    if (!segment) return
+
+    await fetch(new URL(segment, variantUrl).href)
+  } catch (error) {
+    // Only an optimization; the player loads it again when needed
+    preloaded.delete(hlsUrl)
+  }
+}
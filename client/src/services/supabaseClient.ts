@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
+import * as tus from 'tus-js-client'
+import { refreshAccessToken } from './api'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -7,38 +9,81 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables')
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+// Seconds before expiry at which a token is refreshed instead of sent
+const EXPIRY_MARGIN_SECONDS = 30
 
-export const getPublicUrl = (path: string) => {
-  const { data } = supabase.storage.from('videos').getPublicUrl(path)
-  return data.publicUrl
+const isTokenExpiring = (token: string) => {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')))
+    return payload.exp * 1000 - EXPIRY_MARGIN_SECONDS * 1000 < Date.now()
+  } catch (error) {
+    return true
+  }
 }
 
-export const uploadVideo = async (file: File, fileName: string) => {
+// Direct table and storage requests carry the same access token as the Edge
+// Functions, so RLS policies see the logged in user. Without a session they
+// fall back to the anon key.
+const getAccessToken = async () => {
+  const token = localStorage.getItem('auth_token')
+  if (!token || !isTokenExpiring(token)) {
+    return token
+  }
+
   try {
-    const { data, error } = await supabase.storage
-      .from('videos')
-      .upload(fileName, file, {
-        cacheControl: '3600',
-        upsert: false
-      })
-    
-    if (error) {
-      throw error
-    }
-    
-    return {
-      data: {
-        path: data.path,
-        id: data.id || fileName,
-        fullPath: data.fullPath
-      },
-      error: null
-    }
+    return await refreshAccessToken()
   } catch (error) {
-    return {
-      data: null,
-      error: error as Error
-    }
+    return null
   }
-}
\ No newline at end of file
+}
+
+export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+  accessToken: getAccessToken,
+})
+
+export const getPublicUrl = (path: string) => {
+  const { data } = supabase.storage.from('videos').getPublicUrl(path)
+  return data.publicUrl
+}
+
+// Supabase Storage requires 6MB chunks for resumable uploads
+const RESUMABLE_CHUNK_SIZE = 6 * 1024 * 1024
+
+export interface ResumableUploadCallbacks {
+  onProgress: (bytesUploaded: number, bytesTotal: number) => void
+  onSuccess: () => void
+  onError: (error: Error) => void
+}
+
+// Uploads a file over tus to a path reserved by the create-upload Edge
+// Function, authorized by the signed upload token it returned. tus remembers
+// the upload URL in localStorage, so an interrupted upload can continue from
+// its last chunk, and failed chunks are retried with backoff.
+export const createResumableUpload = (
+  file: File,
+  path: string,
+  token: string,
+  callbacks: ResumableUploadCallbacks
+) =>
+  new tus.Upload(file, {
+    endpoint: `${supabaseUrl}/storage/v1/upload/resumable/sign`,
+    retryDelays: [0, 3000, 5000, 10000, 20000],
+    headers: {
+      apikey: supabaseAnonKey,
+      'x-signature': token,
+    },
+    chunkSize: RESUMABLE_CHUNK_SIZE,
+    uploadDataDuringCreation: true,
+    removeFingerprintOnSuccess: true,
+    metadata: {
+      bucketName: 'videos',
+      objectName: path,
+      contentType: file.type,
+      cacheControl: '3600',
+    },
+    // A new reservation means a new object, so the path is part of the key
+    fingerprint: async () => `${path}-${file.size}-${file.lastModified}`,
+    onProgress: callbacks.onProgress,
+    onSuccess: () => callbacks.onSuccess(),
+    onError: callbacks.onError,
+  })
@@ -0,0 +1,58 @@
+import { BrowserProvider, type Eip1193Provider } from 'ethers'
+
+declare global {
+  interface Window {
+    ethereum?: Eip1193Provider
+  }
+}
+
+export const hasInjectedWallet = () => typeof window !== 'undefined' && !!window.ethereum
+
+interface SiweMessageFields {
+  domain: string
+  address: string
+  statement: string
+  uri: string
+  chainId: number
+  nonce: string
+  issuedAt: string
+}
+
+// Format a Sign-In With Ethereum (EIP-4361) message
+export const buildSiweMessage = (fields: SiweMessageFields) =>
+  [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    '',
+    fields.statement,
+    '',
+    `URI: ${fields.uri}`,
+    'Version: 1',
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+  ].join('\n')
+
+// Ask the injected wallet (MetaMask, Rabby, ...) to sign a login message for this site
+export const signSiweMessage = async (nonce: string) => {
+  if (!window.ethereum) {
+    throw new Error('No browser wallet found')
+  }
+
+  const provider = new BrowserProvider(window.ethereum)
+  const signer = await provider.getSigner()
+  const network = await provider.getNetwork()
+
+  const message = buildSiweMessage({
+    domain: window.location.host,
+    address: await signer.getAddress(),
+    statement: 'Sign in to Web3TikTok',
+    uri: window.location.origin,
+    chainId: Number(network.chainId),
+    nonce,
+    issuedAt: new Date().toISOString(),
+  })
+
+  const signature = await signer.signMessage(message)
+  return { message, signature }
+}
@@ -1,22 +1,98 @@
 export interface User {
   id: string
-  email: string
+  email: string | null
   username: string
   walletAddress: string
+  totpEnabled?: boolean
+  hasCustodialWallet?: boolean
   createdAt: string
   updatedAt?: string
 }
 
+// EIP-712 typed data signed by the owner's wallet (eth_signTypedData_v4 format)
+export interface VideoManifest {
+  types: Record<string, { name: string; type: string }[]>
+  primaryType: 'VideoManifest'
+  domain: {
+    name: string
+    version: string
+    chainId: number
+  }
+  message: {
+    owner: string
+    contentHash: string
+    title: string
+    createdAt: number
+    license: string
+    parent: string
+  }
+}
+
+export type VideoProcessingStatus = 'pending' | 'ready' | 'failed'
+
 export interface Video {
   id: string
   title: string
   videoUrl: string
+  storagePath: string | null // null for videos published before paths were recorded
+  fileSize: number | null // bytes counted against the quota
   ownerId: string
+  contentHash: string | null
   signature: string
+  manifest: VideoManifest | null
+  signedMessage: string | null // videos signed before manifests
+  license: string | null
+  parentId: string | null
+  // Filled in by the media worker shortly after upload
+  durationSeconds: number | null
+  width: number | null
+  height: number | null
+  videoCodec: string | null
+  thumbnailUrl: string | null
+  processingStatus: VideoProcessingStatus // only ready videos are in the feed
+  hlsUrl: string | null // master playlist
+  likeCount: number
   createdAt: string
   owner?: User
 }
 
+export interface UserQuota {
+  userId: string
+  bytesUsed: number
+  videoCount: number
+  uploadsToday: number
+  uploadDay: string | null // YYYY-MM-DD (UTC) that uploadsToday counts
+  maxBytes: number
+  maxVideos: number
+  dailyUploadLimit: number
+  updatedAt: string
+}
+
+// A signed title change or deletion, kept after the video itself is gone
+export interface VideoRevision {
+  id: string
+  videoId: string
+  ownerId: string
+  action: 'update' | 'delete'
+  title: string | null
+  contentHash: string | null
+  signedData: {
+    types: Record<string, { name: string; type: string }[]>
+    primaryType: 'VideoRevision'
+    domain: VideoManifest['domain']
+    message: {
+      owner: string
+      videoId: string
+      contentHash: string
+      action: 'update' | 'delete'
+      title: string
+      createdAt: number
+    }
+  }
+  signature: string
+  createdAt: string
+}
+
 export interface AuthState {
   user: User | null
   token: string | null
@@ -24,10 +100,15 @@ export interface AuthState {
   error: string | null
 }
 
+export type WalletImportType = 'mnemonic' | 'privateKey' | 'keystore'
+
 export interface RegisterData {
   email: string
   password: string
   confirmPassword: string
+  importType?: WalletImportType
+  importValue?: string
+  keystorePassword?: string
 }
 
 export interface LoginData {
@@ -35,10 +116,62 @@ export interface LoginData {
   password: string
 }
 
+export interface ChangePasswordData {
+  currentPassword: string
+  newPassword: string
+  confirmNewPassword: string
+  totpCode?: string
+}
+
 export interface UploadVideoData {
   title: string
   videoFile: File
+  license: string
   password: string
+  totpCode?: string
+}
+
+export interface CreateUploadData {
+  contentType: string
+  size: number
+}
+
+// A server-chosen object path and a signed URL that can upload only to it
+export interface CreateUploadResponse {
+  path: string
+  token: string
+  signedUrl: string
+  expiresAt: string
+}
+
+export interface UploadMetadataData {
+  path: string // reserved by create-upload; the server builds the public URL
+  title: string
+  password: string
+  totpCode?: string
+  contentHash?: string
+  license?: string
+  parentVideoId?: string
+}
+
+export interface UpdateVideoData {
+  videoId: string
+  title: string
+  password: string
+  totpCode?: string
+}
+
+export interface DeleteVideoData {
+  videoId: string
+  password: string
+  totpCode?: string
+}
+
+export interface ExportWalletData {
+  password: string
+  exportPassphrase: string
+  confirmExportPassphrase: string
+  totpCode?: string
 }
 
 export interface ApiResponse<T = any> {
@@ -52,17 +185,101 @@ export interface VideoUploadResponse {
   video: Video
 }
 
+export interface VerifyVideoResponse {
+  videoId: string
+  verified: boolean
+  signer: string | null
+  signedAt: string | null
+  reason: string | null
+  ownerAddress: string
+  contentHash: string | null
+  manifest: VideoManifest | null
+  signedMessage: string | null
+  signature: string
+  latestRevision: Pick<VideoRevision, 'id' | 'title' | 'signedData' | 'signature' | 'createdAt'> | null
+}
+
+export interface FeedResponse {
+  videos: Video[]
+  nextCursor: string | null // null on the last page
+}
+
+export interface UpdateVideoResponse {
+  message: string
+  video: Video
+  revision: VideoRevision
+}
+
+export interface DeleteVideoResponse {
+  message: string
+  revision: VideoRevision
+}
+
 export interface AuthResponse {
   message: string
   token: string
+  refreshToken: string
+  expiresIn: number
   user: User
 }
 
+export interface MfaChallengeResponse {
+  message: string
+  status: 'mfa_required'
+  challengeToken: string
+}
+
+export interface ExportWalletResponse {
+  message: string
+  address: string
+  keystore: Record<string, unknown>
+}
+
+export interface SiweNonceResponse {
+  nonce: string
+  expiresAt: string
+}
+
+export interface TotpSetupResponse {
+  message: string
+  secret: string
+  otpauthUri: string
+  qrCode: string
+}
+
+export interface TotpEnableResponse {
+  message: string
+  backupCodes: string[]
+}
+
+export interface RefreshResponse {
+  message: string
+  token: string
+  refreshToken: string
+  expiresIn: number
+}
+
 export interface RegisterResponse {
   message: string
+  recoveryPhrase: string | null // null when the user imported their own recovery phrase
   user: User
 }
 
+export interface ForgotPasswordData {
+  email: string
+}
+
+export interface ResetPasswordData {
+  recoveryPhrase: string
+  newPassword: string
+  confirmNewPassword: string
+}
+
+export interface VerifyResetTokenResponse {
+  message: string
+  email: string
+}
+
 export interface SupabaseFileUpload {
   data: {
     path: string
@@ -0,0 +1,245 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { create, getNumericDate, verify } from 'https://deno.land/x/djwt@v2.8/mod.ts'
+import { generateToken, hashToken } from './tokens.ts'
+
+// Access tokens are short-lived JWTs tied to a row in "Session". Refresh tokens are
+// opaque, stored hashed, and rotated on every use.
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60 // 15 minutes
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000 // 30 days
+const MFA_CHALLENGE_TTL_SECONDS = 5 * 60 // 5 minutes
+
+export interface JWTPayload {
+  sub: string
+  sid: string
+  role: 'authenticated'
+  aud: 'authenticated'
+  email: string | null
+  walletAddress: string
+  iat: number
+  exp: number
+}
+
+export interface SessionUser {
+  id: string
+  email: string | null // null for accounts created with Sign-In With Ethereum
+  walletAddress: string
+}
+
+export interface SessionTokens {
+  token: string
+  refreshToken: string
+  expiresIn: number
+}
+
+// JWT_SECRET must be the project's JWT secret (Settings > API), so PostgREST
+// accepts access tokens and auth.uid() in RLS policies resolves to the user
+const getJwtKey = async () => {
+  const jwtSecret = Deno.env.get('JWT_SECRET')!
+  return await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(jwtSecret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  )
+}
+
+export const createAccessToken = async (user: SessionUser, sessionId: string) => {
+  const payload = {
+    sub: user.id,
+    sid: sessionId,
+    // Claims PostgREST needs to run direct table access as the user
+    role: 'authenticated',
+    aud: 'authenticated',
+    email: user.email,
+    walletAddress: user.walletAddress,
+    iat: getNumericDate(new Date()),
+    exp: getNumericDate(ACCESS_TOKEN_TTL_SECONDS),
+  }
+
+  return await create({ alg: 'HS256', typ: 'JWT' }, payload, await getJwtKey())
+}
+
+// Short-lived token proving the password step of a 2FA login succeeded. It
+// carries a purpose claim so it can never be used as an access token.
+export const createMfaChallenge = async (userId: string) => {
+  const payload = {
+    sub: userId,
+    purpose: 'mfa',
+    iat: getNumericDate(new Date()),
+    exp: getNumericDate(MFA_CHALLENGE_TTL_SECONDS),
+  }
+
+  return await create({ alg: 'HS256', typ: 'JWT' }, payload, await getJwtKey())
+}
+
+// Returns the user id of a valid challenge token, or null
+export const verifyMfaChallenge = async (challengeToken: string) => {
+  try {
+    const payload = await verify(challengeToken, await getJwtKey())
+    return payload.purpose === 'mfa' && typeof payload.sub === 'string' ? payload.sub : null
+  } catch (error) {
+    return null
+  }
+}
+
+// Start a new session for a freshly authenticated user
+export const createSession = async (
+  supabase: SupabaseClient,
+  user: SessionUser,
+  req: Request
+): Promise<SessionTokens> => {
+  const refreshToken = generateToken()
+
+  const { data: session, error } = await supabase
+    .from('Session')
+    .insert({
+      userId: user.id,
+      refreshTokenHash: await hashToken(refreshToken),
+      userAgent: req.headers.get('user-agent'),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS).toISOString(),
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return {
+    token: await createAccessToken(user, session.id),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  }
+}
+
+// Exchange a refresh token for a new token pair. Returns null if the token is
+// unknown, expired or revoked. Presenting an already rotated token revokes the
+// whole session, since it means the token was copied.
+export const rotateSession = async (
+  supabase: SupabaseClient,
+  refreshToken: string
+): Promise<SessionTokens | null> => {
+  const refreshTokenHash = await hashToken(refreshToken)
+
+  const { data: reused } = await supabase
+    .from('Session')
+    .select('id')
+    .eq('previousRefreshTokenHash', refreshTokenHash)
+    .is('revokedAt', null)
+    .maybeSingle()
+
+  if (reused) {
+    await revokeSession(supabase, reused.id)
+    return null
+  }
+
+  const { data: session } = await supabase
+    .from('Session')
+    .select('id, userId, expiresAt')
+    .eq('refreshTokenHash', refreshTokenHash)
+    .is('revokedAt', null)
+    .maybeSingle()
+
+  if (!session || new Date(session.expiresAt) <= new Date()) {
+    return null
+  }
+
+  const { data: user } = await supabase
+    .from('User')
+    .select('id, email, walletAddress')
+    .eq('id', session.userId)
+    .single()
+
+  if (!user) {
+    return null
+  }
+
+  const nextRefreshToken = generateToken()
+
+  // Matching on the old hash means two concurrent refreshes can't both succeed
+  const { data: rotated } = await supabase
+    .from('Session')
+    .update({
+      refreshTokenHash: await hashToken(nextRefreshToken),
+      previousRefreshTokenHash: refreshTokenHash,
+      lastUsedAt: new Date().toISOString(),
+    })
+    .eq('id', session.id)
+    .eq('refreshTokenHash', refreshTokenHash)
+    .select('id')
+    .maybeSingle()
+
+  if (!rotated) {
+    return null
+  }
+
+  return {
+    token: await createAccessToken(user, session.id),
+    refreshToken: nextRefreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  }
+}
+
+export const revokeSession = async (supabase: SupabaseClient, sessionId: string) => {
+  await supabase
+    .from('Session')
+    .update({ revokedAt: new Date().toISOString() })
+    .eq('id', sessionId)
+    .is('revokedAt', null)
+}
+
+// Revoke every session of a user, optionally keeping the current one
+export const revokeUserSessions = async (
+  supabase: SupabaseClient,
+  userId: string,
+  exceptSessionId?: string
+) => {
+  let query = supabase
+    .from('Session')
+    .update({ revokedAt: new Date().toISOString() })
+    .eq('userId', userId)
+    .is('revokedAt', null)
+
+  if (exceptSessionId) {
+    query = query.neq('id', exceptSessionId)
+  }
+
+  await query
+}
+
+// Verify the bearer token and check its session hasn't been revoked.
+// Returns null when the request is not authenticated.
+export const authenticate = async (
+  req: Request,
+  supabase: SupabaseClient
+): Promise<JWTPayload | null> => {
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null
+  }
+
+  const token = authHeader.substring(7) // Remove 'Bearer ' prefix
+
+  let payload: JWTPayload
+  try {
+    payload = await verify(token, await getJwtKey()) as unknown as JWTPayload
+  } catch (error) {
+    return null
+  }
+
+  // Only session tokens carry a session id; MFA challenge tokens are rejected here
+  if (!payload.sid) {
+    return null
+  }
+
+  const { data: session } = await supabase
+    .from('Session')
+    .select('id')
+    .eq('id', payload.sid)
+    .eq('userId', payload.sub)
+    .is('revokedAt', null)
+    .maybeSingle()
+
+  return session ? payload : null
+}
@@ -0,0 +1,118 @@
+import { ethers } from 'https://esm.sh/ethers@6'
+
+// Pluggable key management for the master keys that wrap per-user data keys.
+// KMS_PROVIDER selects the implementation:
+// - 'env' (default): the active master key is KMS_MASTER_KEY (32 bytes hex) with
+//   id KMS_MASTER_KEY_ID. Keys being rotated out stay readable from
+//   KMS_RETIRED_MASTER_KEYS, a JSON object of id -> hex key.
+// - 'local': a JSON key file at KMS_KEY_FILE, a stand-in for a hosted KMS in
+//   local development: { "activeKeyId": "...", "keys": { "<id>": "<hex>" } }
+//
+// A hosted KMS (AWS KMS, Cloud KMS, Vault transit, ...) plugs in by implementing
+// KeyManagementService.
+
+export interface WrappedKey {
+  wrappedKey: string
+  keyId: string // id of the master key that wrapped it
+}
+
+export interface KeyManagementService {
+  activeKeyId(): Promise<string>
+  wrapKey(key: Uint8Array): Promise<WrappedKey>
+  unwrapKey(wrapped: WrappedKey): Promise<Uint8Array>
+}
+
+interface Keyring {
+  activeKeyId: string
+  keys: Record<string, string>
+}
+
+// Wraps with AES-256-GCM under a master key held in memory. The key id is bound
+// as additional data, so a wrapped key can't be relabelled as another key's.
+abstract class KeyringKms implements KeyManagementService {
+  protected abstract loadKeyring(): Promise<Keyring>
+
+  private async getMasterKey(keyring: Keyring, keyId: string) {
+    const hex = keyring.keys[keyId]
+    if (!hex) {
+      throw new Error(`Unknown master key: ${keyId}`)
+    }
+
+    const keyBytes = ethers.getBytes(hex.startsWith('0x') ? hex : `0x${hex}`)
+    if (keyBytes.length !== 32) {
+      throw new Error(`Master key ${keyId} must be 32 bytes`)
+    }
+
+    return await crypto.subtle.importKey('raw', keyBytes, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt'])
+  }
+
+  async activeKeyId() {
+    return (await this.loadKeyring()).activeKeyId
+  }
+
+  async wrapKey(key: Uint8Array): Promise<WrappedKey> {
+    const keyring = await this.loadKeyring()
+    const keyId = keyring.activeKeyId
+    const masterKey = await this.getMasterKey(keyring, keyId)
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(keyId) },
+      masterKey,
+      key
+    )
+
+    return { wrappedKey: ethers.concat([iv, new Uint8Array(ciphertext)]), keyId }
+  }
+
+  async unwrapKey(wrapped: WrappedKey): Promise<Uint8Array> {
+    const keyring = await this.loadKeyring()
+    const masterKey = await this.getMasterKey(keyring, wrapped.keyId)
+    const bytes = ethers.getBytes(wrapped.wrappedKey)
+
+    const key = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes.slice(0, 12), additionalData: new TextEncoder().encode(wrapped.keyId) },
+      masterKey,
+      bytes.slice(12)
+    )
+
+    return new Uint8Array(key)
+  }
+}
+
+export class EnvKms extends KeyringKms {
+  protected async loadKeyring(): Promise<Keyring> {
+    const masterKey = Deno.env.get('KMS_MASTER_KEY')
+    if (!masterKey) {
+      throw new Error('KMS_MASTER_KEY is not set')
+    }
+
+    const activeKeyId = Deno.env.get('KMS_MASTER_KEY_ID') || 'default'
+    const retired = JSON.parse(Deno.env.get('KMS_RETIRED_MASTER_KEYS') || '{}')
+
+    return { activeKeyId, keys: { ...retired, [activeKeyId]: masterKey } }
+  }
+}
+
+export class LocalFileKms extends KeyringKms {
+  constructor(private path: string) {
+    super()
+  }
+
+  protected async loadKeyring(): Promise<Keyring> {
+    return JSON.parse(await Deno.readTextFile(this.path))
+  }
+}
+
+export const getKms = (): KeyManagementService => {
+  const provider = Deno.env.get('KMS_PROVIDER') || 'env'
+
+  switch (provider) {
+    case 'env':
+      return new EnvKms()
+    case 'local':
+      return new LocalFileKms(Deno.env.get('KMS_KEY_FILE')!)
+    default:
+      throw new Error(`Unknown KMS_PROVIDER: ${provider}`)
+  }
+}
@@ -0,0 +1,59 @@
+// Pluggable email delivery. EMAIL_PROVIDER selects the sender:
+// - 'console' (default): logs the message, for local development
+// - 'resend': sends through the Resend HTTP API (RESEND_API_KEY, EMAIL_FROM)
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface EmailSender {
+  send(message: EmailMessage): Promise<void>
+}
+
+export class ConsoleEmailSender implements EmailSender {
+  async send(message: EmailMessage) {
+    console.log(`[email] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`)
+  }
+}
+
+export class ResendEmailSender implements EmailSender {
+  constructor(private apiKey: string, private from: string) {}
+
+  async send(message: EmailMessage) {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Email delivery failed: ${response.status} ${await response.text()}`)
+    }
+  }
+}
+
+export const getEmailSender = (): EmailSender => {
+  const provider = Deno.env.get('EMAIL_PROVIDER') || 'console'
+
+  switch (provider) {
+    case 'console':
+      return new ConsoleEmailSender()
+    case 'resend':
+      return new ResendEmailSender(
+        Deno.env.get('RESEND_API_KEY')!,
+        Deno.env.get('EMAIL_FROM')!
+      )
+    default:
+      throw new Error(`Unknown EMAIL_PROVIDER: ${provider}`)
+  }
+}
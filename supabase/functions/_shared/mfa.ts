@@ -0,0 +1,153 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { verifyTotp } from './totp.ts'
+import { hashToken } from './tokens.ts'
+import {
+  clearFailures,
+  getClientIp,
+  getRetryAfter,
+  recordFailure,
+  type ThrottleRule,
+} from './throttle.ts'
+
+// Second factor checks shared by login and every endpoint that signs with the
+// custodial wallet. A code is either a 6-digit TOTP or a one-time backup code.
+
+const BACKUP_CODE_COUNT = 10
+const BACKUP_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789' // no look-alike characters
+
+export interface MfaUser {
+  id: string
+  totpEnabled: boolean
+  totpSecret: string | null
+  totpLastUsedStep: number | null
+}
+
+// Why a request was refused by requireSecondFactor, ready to be sent as JSON
+export interface SecondFactorFailure {
+  status: number
+  error: string
+  code: 'mfa_required' | 'invalid_mfa_code' | 'too_many_attempts'
+  retryAfter?: number
+}
+
+// Rules for guessing second factor codes
+export const mfaThrottleRules = (userId: string, req: Request): ThrottleRule[] => [
+  { key: `mfa:user:${userId}`, threshold: 5, resetOnSuccess: true },
+  { key: `mfa:ip:${getClientIp(req)}`, threshold: 20, resetOnSuccess: false },
+]
+
+const normalizeBackupCode = (code: string) => code.trim().toLowerCase().replace(/[\s-]/g, '')
+
+// Backup codes look like "abcde-fghij"
+export const generateBackupCodes = () =>
+  Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(10))
+    const chars = Array.from(bytes).map(b => BACKUP_CODE_ALPHABET[b % BACKUP_CODE_ALPHABET.length])
+    return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`
+  })
+
+// Replace all of a user's backup codes, storing only their hashes
+export const storeBackupCodes = async (
+  supabase: SupabaseClient,
+  userId: string,
+  codes: string[]
+) => {
+  await supabase.from('BackupCode').delete().eq('userId', userId)
+
+  const { error } = await supabase
+    .from('BackupCode')
+    .insert(await Promise.all(codes.map(async code => ({
+      userId,
+      codeHash: await hashToken(normalizeBackupCode(code)),
+    }))))
+
+  if (error) {
+    throw error
+  }
+}
+
+// Verify a TOTP or backup code for a user with 2FA enabled. Successful codes are
+// consumed: the TOTP step is recorded and backup codes are marked used.
+export const verifySecondFactor = async (
+  supabase: SupabaseClient,
+  user: MfaUser,
+  code: string
+): Promise<boolean> => {
+  if (!user.totpEnabled || !user.totpSecret) {
+    return false
+  }
+
+  const step = await verifyTotp(user.totpSecret, code.trim(), user.totpLastUsedStep)
+  if (step !== null) {
+    // Only advance the step if nobody else used this code concurrently
+    let query = supabase
+      .from('User')
+      .update({ totpLastUsedStep: step })
+      .eq('id', user.id)
+
+    query = user.totpLastUsedStep === null
+      ? query.is('totpLastUsedStep', null)
+      : query.eq('totpLastUsedStep', user.totpLastUsedStep)
+
+    const { data } = await query.select('id').maybeSingle()
+    return !!data
+  }
+
+  const { data: backupCode } = await supabase
+    .from('BackupCode')
+    .update({ usedAt: new Date().toISOString() })
+    .eq('userId', user.id)
+    .eq('codeHash', await hashToken(normalizeBackupCode(code)))
+    .is('usedAt', null)
+    .select('id')
+    .maybeSingle()
+
+  return !!backupCode
+}
+
+// Guard for endpoints that need a second factor when the user has 2FA enabled.
+// Returns null when the request may proceed.
+export const requireSecondFactor = async (
+  supabase: SupabaseClient,
+  user: MfaUser,
+  code: string | undefined,
+  req: Request
+): Promise<SecondFactorFailure | null> => {
+  if (!user.totpEnabled) {
+    return null
+  }
+
+  if (!code) {
+    return { status: 401, error: 'Two-factor authentication code required', code: 'mfa_required' }
+  }
+
+  const throttleRules = mfaThrottleRules(user.id, req)
+  const lockedFor = await getRetryAfter(supabase, throttleRules)
+
+  if (lockedFor) {
+    return {
+      status: 429,
+      error: `Too many failed attempts. Try again in ${lockedFor} seconds`,
+      code: 'too_many_attempts',
+      retryAfter: lockedFor,
+    }
+  }
+
+  if (await verifySecondFactor(supabase, user, code)) {
+    await clearFailures(supabase, throttleRules)
+    return null
+  }
+
+  const retryAfter = await recordFailure(supabase, throttleRules)
+
+  if (retryAfter) {
+    return {
+      status: 429,
+      error: `Too many failed attempts. Try again in ${retryAfter} seconds`,
+      code: 'too_many_attempts',
+      retryAfter,
+    }
+  }
+
+  return { status: 401, error: 'Invalid authentication code', code: 'invalid_mfa_code' }
+}
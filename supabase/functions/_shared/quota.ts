@@ -0,0 +1,80 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Per-user storage quotas, kept in "UserQuota". Usage is counted when a video
+// is published and given back when it's deleted. create-upload also counts
+// open reservations, so users can't upload more than they could publish.
+
+export type QuotaLimit = 'storage' | 'videos' | 'daily_uploads'
+
+const QUOTA_MESSAGES: Record<QuotaLimit, string> = {
+  storage: 'Storage quota exceeded. Delete some videos to free up space',
+  videos: 'Video limit reached. Delete some videos to upload new ones',
+  daily_uploads: 'Daily upload limit reached. Try again tomorrow',
+}
+
+// Response body for an upload refused by the quota
+export const quotaExceededError = (limit: QuotaLimit) => ({
+  error: QUOTA_MESSAGES[limit],
+  code: 'quota_exceeded',
+  limit,
+})
+
+// Reserve an object path for an upload, counting the user's open reservations
+// as used. Returns the exceeded limit, in which case nothing was reserved.
+export const reserveUpload = async (
+  supabase: SupabaseClient,
+  userId: string,
+  reservation: { path: string; contentType: string; size: number; expiresAt: string }
+): Promise<QuotaLimit | null> => {
+  const { data, error } = await supabase.rpc('reserve_upload', {
+    p_user_id: userId,
+    p_path: reservation.path,
+    p_content_type: reservation.contentType,
+    p_size: reservation.size,
+    p_expires_at: reservation.expiresAt,
+  })
+
+  if (error) {
+    throw error
+  }
+
+  return data
+}
+
+// Count a published video. Returns the exceeded limit, in which case nothing
+// was counted.
+export const consumeQuota = async (
+  supabase: SupabaseClient,
+  userId: string,
+  bytes: number
+): Promise<QuotaLimit | null> => {
+  const { data, error } = await supabase.rpc('consume_upload_quota', {
+    p_user_id: userId,
+    p_bytes: bytes,
+  })
+
+  if (error) {
+    throw error
+  }
+
+  return data
+}
+
+// Give back a video's space. refundUpload also gives back today's upload, for
+// videos that were counted but failed to save.
+export const releaseQuota = async (
+  supabase: SupabaseClient,
+  userId: string,
+  bytes: number,
+  refundUpload = false
+) => {
+  const { error } = await supabase.rpc('release_upload_quota', {
+    p_user_id: userId,
+    p_bytes: bytes,
+    p_refund_upload: refundUpload,
+  })
+
+  if (error) {
+    console.error('Quota release error:', error)
+  }
+}
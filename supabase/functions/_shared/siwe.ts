@@ -0,0 +1,145 @@
+// Parsing and validation of Sign-In With Ethereum (EIP-4361) messages. Signature
+// recovery itself is done by the caller with ethers.
+
+export const SIWE_NONCE_TTL_SECONDS = 10 * 60 // 10 minutes
+const MAX_MESSAGE_AGE_MS = 10 * 60 * 1000 // messages must be signed within 10 minutes
+const CLOCK_SKEW_MS = 60 * 1000
+
+export interface SiweMessage {
+  domain: string
+  address: string
+  statement: string | null
+  uri: string
+  version: string
+  chainId: number
+  nonce: string
+  issuedAt: string
+  expirationTime: string | null
+  notBefore: string | null
+  requestId: string | null
+  resources: string[]
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:'
+
+// Parse the plain text message. Returns null if it isn't a well-formed EIP-4361 message.
+export const parseSiweMessage = (message: string): SiweMessage | null => {
+  const lines = message.replace(/\r\n/g, '\n').split('\n')
+
+  if (lines.length < 8 || !lines[0].endsWith(HEADER_SUFFIX)) {
+    return null
+  }
+
+  const domain = lines[0].slice(0, -HEADER_SUFFIX.length)
+  const address = lines[1]
+
+  if (!domain || !/^0x[0-9a-fA-F]{40}$/.test(address) || lines[2] !== '') {
+    return null
+  }
+
+  // Optional statement, surrounded by blank lines
+  let index = 3
+  let statement: string | null = null
+  if (lines[index] !== '') {
+    statement = lines[index]
+    index++
+  }
+  if (lines[index] !== '') {
+    return null
+  }
+  index++
+
+  const fields = new Map<string, string>()
+  const resources: string[] = []
+
+  for (; index < lines.length; index++) {
+    const line = lines[index]
+
+    if (line === 'Resources:') {
+      for (index++; index < lines.length; index++) {
+        if (!lines[index].startsWith('- ')) {
+          return null
+        }
+        resources.push(lines[index].slice(2))
+      }
+      break
+    }
+
+    const separator = line.indexOf(': ')
+    if (separator === -1) {
+      return null
+    }
+    fields.set(line.slice(0, separator), line.slice(separator + 2))
+  }
+
+  const uri = fields.get('URI')
+  const version = fields.get('Version')
+  const chainId = Number(fields.get('Chain ID'))
+  const nonce = fields.get('Nonce')
+  const issuedAt = fields.get('Issued At')
+
+  if (!uri || !version || !Number.isInteger(chainId) || !nonce || !issuedAt) {
+    return null
+  }
+
+  return {
+    domain,
+    address,
+    statement,
+    uri,
+    version,
+    chainId,
+    nonce,
+    issuedAt,
+    expirationTime: fields.get('Expiration Time') ?? null,
+    notBefore: fields.get('Not Before') ?? null,
+    requestId: fields.get('Request ID') ?? null,
+    resources,
+  }
+}
+
+// Check the parts of the message the server is responsible for: the domain it
+// was issued for, the version and the validity window. Returns an error
+// message, or null when the message is acceptable.
+export const validateSiweMessage = (siwe: SiweMessage, expectedDomain: string): string | null => {
+  if (siwe.domain !== expectedDomain) {
+    return 'Message was issued for a different domain'
+  }
+
+  if (siwe.version !== '1') {
+    return 'Unsupported message version'
+  }
+
+  const now = Date.now()
+  const issuedAt = Date.parse(siwe.issuedAt)
+
+  if (Number.isNaN(issuedAt) || issuedAt > now + CLOCK_SKEW_MS || issuedAt < now - MAX_MESSAGE_AGE_MS) {
+    return 'Message is expired or not yet valid'
+  }
+
+  if (siwe.expirationTime !== null) {
+    const expirationTime = Date.parse(siwe.expirationTime)
+    if (Number.isNaN(expirationTime) || expirationTime <= now) {
+      return 'Message is expired or not yet valid'
+    }
+  }
+
+  if (siwe.notBefore !== null) {
+    const notBefore = Date.parse(siwe.notBefore)
+    if (Number.isNaN(notBefore) || notBefore > now + CLOCK_SKEW_MS) {
+      return 'Message is expired or not yet valid'
+    }
+  }
+
+  return null
+}
+
+// The domain users are expected to sign in on, e.g. "app.example.com"
+export const getSiweDomain = () => {
+  const configured = Deno.env.get('SIWE_DOMAIN')
+  if (configured) {
+    return configured
+  }
+
+  return new URL(Deno.env.get('APP_URL') || 'http://localhost:3000').host
+}
@@ -0,0 +1,101 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Failed password attempts are counted per key in "AuthThrottle". Once a key
+// reaches its threshold it is locked, and every further failure doubles the
+// lockout (30s, 60s, 120s, ... up to 1 hour). Counters reset after an hour
+// without failures.
+const BASE_DELAY_SECONDS = 30
+const MAX_DELAY_SECONDS = 60 * 60
+const RESET_AFTER_SECONDS = 60 * 60
+
+export interface ThrottleRule {
+  key: string
+  threshold: number
+  // Account counters are cleared by a successful attempt, IP counters are not,
+  // so one correct guess can't reset a spray across many accounts
+  resetOnSuccess: boolean
+}
+
+// Every proxy in front of the functions appends the address it saw to
+// X-Forwarded-For, while anything to the left of that came from the client and
+// can be made up. The client's address is the entry added by the outermost
+// trusted proxy: TRUSTED_PROXY_HOPS entries from the right (1 on Supabase).
+export const getClientIp = (req: Request) => {
+  const hops = Math.max(1, Number(Deno.env.get('TRUSTED_PROXY_HOPS')) || 1)
+  const entries = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+
+  return entries[Math.max(entries.length - hops, 0)] || 'unknown'
+}
+
+// Rules for guessing an account password through the login form
+export const loginThrottleRules = (email: string, req: Request): ThrottleRule[] => [
+  { key: `login:account:${email.trim().toLowerCase()}`, threshold: 5, resetOnSuccess: true },
+  { key: `login:ip:${getClientIp(req)}`, threshold: 20, resetOnSuccess: false },
+]
+
+// Rules for guessing the password that decrypts a user's wallet key
+export const walletThrottleRules = (userId: string, req: Request): ThrottleRule[] => [
+  { key: `wallet:user:${userId}`, threshold: 5, resetOnSuccess: true },
+  { key: `wallet:ip:${getClientIp(req)}`, threshold: 20, resetOnSuccess: false },
+]
+
+// Seconds until the longest active lockout ends, or null if not locked
+export const getRetryAfter = async (
+  supabase: SupabaseClient,
+  rules: ThrottleRule[]
+): Promise<number | null> => {
+  const { data } = await supabase
+    .from('AuthThrottle')
+    .select('lockedUntil')
+    .in('key', rules.map(rule => rule.key))
+    .gt('lockedUntil', new Date().toISOString())
+
+  if (!data || data.length === 0) {
+    return null
+  }
+
+  const lockedUntil = Math.max(...data.map(row => new Date(row.lockedUntil).getTime()))
+  return Math.max(1, Math.ceil((lockedUntil - Date.now()) / 1000))
+}
+
+// Count a failed attempt. Returns the retry-after in seconds if this failure
+// locked any of the keys.
+export const recordFailure = async (
+  supabase: SupabaseClient,
+  rules: ThrottleRule[]
+): Promise<number | null> => {
+  let retryAfter: number | null = null
+
+  for (const rule of rules) {
+    const { data: lockedUntil, error } = await supabase.rpc('record_auth_failure', {
+      p_key: rule.key,
+      p_threshold: rule.threshold,
+      p_base_delay_seconds: BASE_DELAY_SECONDS,
+      p_max_delay_seconds: MAX_DELAY_SECONDS,
+      p_reset_after_seconds: RESET_AFTER_SECONDS,
+    })
+
+    if (error) {
+      console.error('Throttle update error:', error)
+      continue
+    }
+
+    if (lockedUntil) {
+      const seconds = Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 1000)
+      retryAfter = Math.max(retryAfter ?? 0, seconds)
+    }
+  }
+
+  return retryAfter
+}
+
+export const clearFailures = async (supabase: SupabaseClient, rules: ThrottleRule[]) => {
+  const keys = rules.filter(rule => rule.resetOnSuccess).map(rule => rule.key)
+
+  if (keys.length > 0) {
+    await supabase.from('AuthThrottle').delete().in('key', keys)
+  }
+}
@@ -0,0 +1,11 @@
+import { toHex } from './walletCrypto.ts'
+
+// Generate an opaque random token to hand to the client
+export const generateToken = (bytes = 32) =>
+  toHex(crypto.getRandomValues(new Uint8Array(bytes)))
+
+// Tokens are only ever stored as their SHA-256 hash
+export const hashToken = async (token: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return toHex(new Uint8Array(digest))
+}
@@ -0,0 +1,293 @@
+import { ethers } from 'https://esm.sh/ethers@6'
+
+// What an owner's wallet signs when a video is uploaded. New uploads sign an
+// EIP-712 "VideoManifest", stored on "Video" as "manifest" so any wallet or
+// contract can check it. Older videos signed a plain text message, stored
+// verbatim as "signedMessage"; those can still be verified.
+//
+// Later title changes and deletions are signed as a "VideoRevision" and kept
+// in the "VideoRevision" table.
+
+export const DEFAULT_LICENSE = 'All rights reserved'
+
+const ZERO_HASH = ethers.ZeroHash
+
+export const VIDEO_MANIFEST_TYPES = {
+  VideoManifest: [
+    { name: 'owner', type: 'address' },
+    { name: 'contentHash', type: 'bytes32' }, // SHA-256 of the file
+    { name: 'title', type: 'string' },
+    { name: 'createdAt', type: 'uint64' }, // Unix seconds
+    { name: 'license', type: 'string' },
+    { name: 'parent', type: 'bytes32' }, // contentHash of the video this one derives from, zero if none
+  ],
+}
+
+export const VIDEO_REVISION_TYPES = {
+  VideoRevision: [
+    { name: 'owner', type: 'address' },
+    { name: 'videoId', type: 'string' },
+    { name: 'contentHash', type: 'bytes32' }, // zero for videos uploaded before content hashes
+    { name: 'action', type: 'string' }, // 'update' or 'delete'
+    { name: 'title', type: 'string' }, // the new title, empty for deletions
+    { name: 'createdAt', type: 'uint64' },
+  ],
+}
+
+const EIP712_DOMAIN_TYPE = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'chainId', type: 'uint256' },
+]
+
+export interface VideoManifestDomain {
+  name: string
+  version: string
+  chainId: number
+}
+
+export interface VideoManifestMessage {
+  owner: string
+  contentHash: string
+  title: string
+  createdAt: number
+  license: string
+  parent: string
+}
+
+// The full eth_signTypedData_v4 payload, so it can be handed to any tool as is
+export interface VideoManifest {
+  types: Record<string, { name: string; type: string }[]>
+  primaryType: 'VideoManifest'
+  domain: VideoManifestDomain
+  message: VideoManifestMessage
+}
+
+export type VideoRevisionAction = 'update' | 'delete'
+
+export interface VideoRevisionMessage {
+  owner: string
+  videoId: string
+  contentHash: string
+  action: VideoRevisionAction
+  title: string
+  createdAt: number
+}
+
+export interface VideoRevisionData {
+  types: Record<string, { name: string; type: string }[]>
+  primaryType: 'VideoRevision'
+  domain: VideoManifestDomain
+  message: VideoRevisionMessage
+}
+
+export interface VideoSignatureFields {
+  videoUrl: string
+  contentHash: string | null // SHA-256 of the file, hex. Missing from older messages.
+  title: string
+  timestamp: string // ISO 8601, when the video was signed
+}
+
+export interface VideoSignatureCheck {
+  verified: boolean
+  signer: string | null
+  signedAt: string | null
+  reason: string | null // why verification failed, null when verified
+}
+
+// The chain id only scopes signatures; nothing is sent on chain
+export const getManifestDomain = (): VideoManifestDomain => ({
+  name: 'Web3TikTok',
+  version: '1',
+  chainId: Number(Deno.env.get('MANIFEST_CHAIN_ID') || '1'),
+})
+
+export const buildVideoManifest = (fields: {
+  owner: string
+  contentHash: string
+  title: string
+  license: string
+  parentContentHash: string | null
+}): VideoManifest => ({
+  types: { EIP712Domain: EIP712_DOMAIN_TYPE, ...VIDEO_MANIFEST_TYPES },
+  primaryType: 'VideoManifest',
+  domain: getManifestDomain(),
+  message: {
+    owner: fields.owner,
+    contentHash: `0x${fields.contentHash}`,
+    title: fields.title,
+    createdAt: Math.floor(Date.now() / 1000),
+    license: fields.license,
+    parent: fields.parentContentHash ? `0x${fields.parentContentHash}` : ZERO_HASH,
+  },
+})
+
+export const signVideoManifest = (wallet: ethers.Wallet, manifest: VideoManifest) =>
+  wallet.signTypedData(manifest.domain, VIDEO_MANIFEST_TYPES, manifest.message)
+
+export const buildVideoRevision = (fields: {
+  owner: string
+  videoId: string
+  contentHash: string | null
+  action: VideoRevisionAction
+  title: string | null
+}): VideoRevisionData => ({
+  types: { EIP712Domain: EIP712_DOMAIN_TYPE, ...VIDEO_REVISION_TYPES },
+  primaryType: 'VideoRevision',
+  domain: getManifestDomain(),
+  message: {
+    owner: fields.owner,
+    videoId: fields.videoId,
+    contentHash: fields.contentHash ? `0x${fields.contentHash}` : ZERO_HASH,
+    action: fields.action,
+    title: fields.title ?? '',
+    createdAt: Math.floor(Date.now() / 1000),
+  },
+})
+
+export const signVideoRevision = (wallet: ethers.Wallet, revision: VideoRevisionData) =>
+  wallet.signTypedData(revision.domain, VIDEO_REVISION_TYPES, revision.message)
+
+export const buildVideoMessage = (fields: VideoSignatureFields) =>
+  [
+    `Video Upload: ${fields.videoUrl}`,
+    ...(fields.contentHash ? [`SHA-256: ${fields.contentHash}`] : []),
+    `Title: ${fields.title}`,
+    `Timestamp: ${fields.timestamp}`,
+  ].join('\n')
+
+// Titles may contain newlines, so the title runs up to the last Timestamp line
+const MESSAGE_PATTERN = /^Video Upload: ([^\n]*)\n(?:SHA-256: ([0-9a-f]{64})\n)?Title: ([\s\S]*)\nTimestamp: ([^\n]*)$/
+
+export const parseVideoMessage = (message: string): VideoSignatureFields | null => {
+  const match = MESSAGE_PATTERN.exec(message)
+  return match
+    ? { videoUrl: match[1], contentHash: match[2] ?? null, title: match[3], timestamp: match[4] }
+    : null
+}
+
+// expectedTitle is null when a later revision changed the title
+const checkManifest = (
+  video: { contentHash: string | null; signature: string },
+  manifest: VideoManifest,
+  ownerAddress: string,
+  expectedTitle: string | null
+): VideoSignatureCheck => {
+  const { message } = manifest
+  const signedAt = new Date(message.createdAt * 1000).toISOString()
+
+  if (
+    (expectedTitle !== null && message.title !== expectedTitle) ||
+    message.contentHash !== `0x${video.contentHash}` ||
+    !ethers.isAddress(message.owner) ||
+    ethers.getAddress(message.owner) !== ethers.getAddress(ownerAddress)
+  ) {
+    return { verified: false, signer: null, signedAt, reason: 'Manifest does not match this video' }
+  }
+
+  // Verify against our own type definition, not the stored one
+  let signer: string
+  try {
+    signer = ethers.verifyTypedData(manifest.domain, VIDEO_MANIFEST_TYPES, message, video.signature)
+  } catch (error) {
+    return { verified: false, signer: null, signedAt, reason: 'Malformed signature' }
+  }
+
+  if (signer !== ethers.getAddress(ownerAddress)) {
+    return { verified: false, signer, signedAt, reason: 'Signer is not the owner\'s wallet' }
+  }
+
+  return { verified: true, signer, signedAt, reason: null }
+}
+
+const checkMessage = (
+  video: { videoUrl: string; contentHash: string | null; signature: string },
+  signedMessage: string,
+  ownerAddress: string,
+  expectedTitle: string | null
+): VideoSignatureCheck => {
+  const fields = parseVideoMessage(signedMessage)
+  if (
+    !fields ||
+    fields.videoUrl !== video.videoUrl ||
+    (expectedTitle !== null && fields.title !== expectedTitle) ||
+    fields.contentHash !== video.contentHash
+  ) {
+    return { verified: false, signer: null, signedAt: null, reason: 'Signed message does not match this video' }
+  }
+
+  let signer: string
+  try {
+    signer = ethers.verifyMessage(signedMessage, video.signature)
+  } catch (error) {
+    return { verified: false, signer: null, signedAt: fields.timestamp, reason: 'Malformed signature' }
+  }
+
+  if (signer !== ethers.getAddress(ownerAddress)) {
+    return { verified: false, signer, signedAt: fields.timestamp, reason: 'Signer is not the owner\'s wallet' }
+  }
+
+  return { verified: true, signer, signedAt: fields.timestamp, reason: null }
+}
+
+// Check a title change against the video it claims to revise
+const checkRevision = (
+  video: { id: string; title: string; contentHash: string | null },
+  revision: { signedData: VideoRevisionData; signature: string },
+  ownerAddress: string
+): string | null => {
+  const { message } = revision.signedData
+
+  if (
+    message.action !== 'update' ||
+    message.videoId !== video.id ||
+    message.title !== video.title ||
+    message.contentHash !== (video.contentHash ? `0x${video.contentHash}` : ZERO_HASH)
+  ) {
+    return 'Latest revision does not match this video'
+  }
+
+  try {
+    const signer = ethers.verifyTypedData(revision.signedData.domain, VIDEO_REVISION_TYPES, message, revision.signature)
+    return signer === ethers.getAddress(ownerAddress) ? null : 'Latest revision was not signed by the owner\'s wallet'
+  } catch (error) {
+    return 'Malformed revision signature'
+  }
+}
+
+// Check that a video's signature was made by its owner's wallet over data
+// describing this video, so a signature can't be moved to another row. When
+// the title was edited, the latest signed revision has to carry the current
+// title instead. Whether the file still matches "contentHash" is up to
+// whoever downloads it.
+export const checkVideoSignature = (
+  video: {
+    id: string
+    videoUrl: string
+    title: string
+    contentHash: string | null
+    signature: string
+    signedMessage: string | null
+    manifest: VideoManifest | null
+  },
+  ownerAddress: string,
+  latestRevision: { signedData: VideoRevisionData; signature: string } | null = null
+): VideoSignatureCheck => {
+  const expectedTitle = latestRevision ? null : video.title
+
+  let result: VideoSignatureCheck
+  if (video.manifest) {
+    result = checkManifest(video, video.manifest, ownerAddress, expectedTitle)
+  } else if (video.signedMessage) {
+    result = checkMessage(video, video.signedMessage, ownerAddress, expectedTitle)
+  } else {
+    return { verified: false, signer: null, signedAt: null, reason: 'Signed message was not recorded for this video' }
+  }
+
+  if (!result.verified || !latestRevision) {
+    return result
+  }
+
+  const revisionError = checkRevision(video, latestRevision, ownerAddress)
+  return revisionError ? { ...result, verified: false, reason: revisionError } : result
+}
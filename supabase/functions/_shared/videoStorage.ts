@@ -0,0 +1,199 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { crypto as stdCrypto } from 'https://deno.land/std@0.168.0/crypto/mod.ts'
+import { toHex } from './walletCrypto.ts'
+
+// Access to uploaded video files in the "videos" storage bucket.
+
+export const VIDEOS_BUCKET = 'videos'
+export const THUMBNAILS_BUCKET = 'thumbnails' // poster frames written by the media worker
+export const STREAMS_BUCKET = 'streams' // HLS renditions written by the media worker
+
+const PUBLIC_PATH_PREFIX = `/storage/v1/object/public/${VIDEOS_BUCKET}/`
+
+// Accepted upload types and the file extension used for their object paths
+export const VIDEO_CONTENT_TYPES: Record<string, string> = {
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+  'video/x-msvideo': 'avi',
+}
+
+const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/')
+
+const objectUrl = (path: string) =>
+  `${Deno.env.get('SUPABASE_URL')!}/storage/v1/object/authenticated/${VIDEOS_BUCKET}/${encodePath(path)}`
+
+// Relative object path without empty or ".." segments
+export const isValidVideoPath = (path: string) =>
+  typeof path === 'string' && path.split('/').every((segment) => segment && segment !== '..')
+
+// Public URLs are built here from the object path, never taken from the client
+export const getVideoPublicUrl = (path: string) =>
+  `${Deno.env.get('SUPABASE_URL')!}${PUBLIC_PATH_PREFIX}${encodePath(path)}`
+
+// The object path of a public video URL, or null if the URL doesn't point into
+// the videos bucket. Only the path is compared: the host the client sees can
+// differ from SUPABASE_URL inside the functions runtime (e.g. locally).
+export const getVideoStoragePath = (videoUrl: string) => {
+  let url: URL
+  try {
+    url = new URL(videoUrl)
+  } catch (error) {
+    return null
+  }
+
+  if (!url.pathname.startsWith(PUBLIC_PATH_PREFIX)) {
+    return null
+  }
+
+  const path = decodeURIComponent(url.pathname.slice(PUBLIC_PATH_PREFIX.length))
+  return isValidVideoPath(path) ? path : null
+}
+
+// Uploads are stored under "<userId>/..."; users may only claim their own files
+export const isOwnVideoPath = (path: string, userId: string) => path.startsWith(`${userId}/`)
+
+// Whether any video row still points at the object, by recorded path or by URL.
+// Older rows only have the URL, whose host may differ, so only its path is matched.
+export const isVideoPathReferenced = async (supabase: SupabaseClient, path: string) => {
+  const [byPath, byUrl] = await Promise.all([
+    supabase.from('Video').select('id', { count: 'exact', head: true }).eq('storagePath', path),
+    supabase.from('Video').select('id', { count: 'exact', head: true })
+      .like('videoUrl', `%${PUBLIC_PATH_PREFIX}${encodePath(path)}`),
+  ])
+
+  if (byPath.error || byUrl.error) {
+    throw byPath.error ?? byUrl.error
+  }
+
+  return (byPath.count ?? 0) + (byUrl.count ?? 0) > 0
+}
+
+// Object paths are chosen by the server, never by the client
+export const createVideoPath = (userId: string, contentType: string) =>
+  `${userId}/${crypto.randomUUID()}.${VIDEO_CONTENT_TYPES[contentType]}`
+
+// Size and content type of the stored object, or null if it doesn't exist
+export const getStoredVideoInfo = async (path: string) => {
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+  const response = await fetch(objectUrl(path), {
+    method: 'HEAD',
+    headers: { Authorization: `Bearer ${supabaseServiceKey}` },
+  })
+
+  if (response.status === 400 || response.status === 404) {
+    return null
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to look up ${path}: ${response.status}`)
+  }
+
+  return {
+    size: Number(response.headers.get('Content-Length')),
+    contentType: response.headers.get('Content-Type'),
+  }
+}
+
+// SHA-256 of the stored object as lowercase hex, or null if it doesn't exist.
+// The file is streamed through the hash, so large videos aren't held in memory.
+export const hashStoredVideo = async (path: string) => {
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+  const response = await fetch(objectUrl(path), {
+    headers: { Authorization: `Bearer ${supabaseServiceKey}` },
+  })
+
+  if (response.status === 400 || response.status === 404) {
+    await response.body?.cancel()
+    return null
+  }
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download ${path}: ${response.status}`)
+  }
+
+  const digest = await stdCrypto.subtle.digest('SHA-256', response.body)
+  return toHex(new Uint8Array(digest))
+}
+
+const LIST_PAGE_SIZE = 1000
+const REMOVE_BATCH_SIZE = 100
+
+export interface StoredVideoObject {
+  path: string
+  size: number | null
+  createdAt: string
+}
+
+// Stream the stored object to a local file, for tools that need one (ffmpeg)
+export const downloadStoredVideo = async (path: string, destination: string) => {
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+  const response = await fetch(objectUrl(path), {
+    headers: { Authorization: `Bearer ${supabaseServiceKey}` },
+  })
+
+  if (!response.ok || !response.body) {
+    await response.body?.cancel()
+    throw new Error(`Failed to download ${path}: ${response.status}`)
+  }
+
+  const file = await Deno.open(destination, { write: true, create: true, truncate: true })
+  await response.body.pipeTo(file.writable)
+}
+
+// Every object in a bucket, or below `root` in it. Listing isn't recursive, so
+// this walks the folders one by one.
+export const listStoredObjects = async (supabase: SupabaseClient, bucket: string, root = '') => {
+  const listFolder = async (prefix: string) => {
+    const entries = []
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const { data, error } = await supabase.storage
+        .from(bucket)
+        .list(prefix, { limit: LIST_PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } })
+
+      if (error) {
+        throw error
+      }
+
+      entries.push(...data)
+      if (data.length < LIST_PAGE_SIZE) {
+        return entries
+      }
+    }
+  }
+
+  const objects: StoredVideoObject[] = []
+  const folders = [root]
+
+  while (folders.length > 0) {
+    const prefix = folders.pop()!
+    for (const entry of await listFolder(prefix)) {
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name
+
+      // Folders have no id
+      if (entry.id === null) {
+        folders.push(path)
+      } else {
+        objects.push({ path, size: entry.metadata?.size ?? null, createdAt: entry.created_at })
+      }
+    }
+  }
+
+  return objects
+}
+
+// Delete everything below `root`, e.g. all renditions of one HLS stream
+export const removeStoredFolder = async (supabase: SupabaseClient, bucket: string, root: string) => {
+  const paths = (await listStoredObjects(supabase, bucket, root)).map((object) => object.path)
+
+  for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+    const { error } = await supabase.storage.from(bucket).remove(paths.slice(i, i + REMOVE_BATCH_SIZE))
+
+    if (error) {
+      throw error
+    }
+  }
+}
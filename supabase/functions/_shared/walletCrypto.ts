@@ -0,0 +1,289 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ethers } from 'https://esm.sh/ethers@6'
+import { getKms } from './kms.ts'
+
+// Helpers for encrypting custodial private keys with a password-derived key.
+// Keys are AES-256-GCM encrypted and stored as hex strings on the "User" row,
+// together with the scheme version and KDF parameters that produced them:
+//
+//   keyVersion 1: PBKDF2-SHA256 (100k iterations by default)
+//   keyVersion 2: scrypt
+//   keyVersion 3: scrypt combined with the user's data key (envelope encryption)
+//
+// From version 3 the AES key also depends on a random per-user data key, stored
+// wrapped by a server-held master key (see kms.ts). A database dump alone is
+// then not enough to guess passwords offline. The password copy and the
+// recovery copy of a user's key share the same data key.
+//
+// New keys always use CURRENT_KEY_VERSION with DEFAULT_KDF_PARAMS. Older keys
+// keep working and are re-wrapped the next time the password is used.
+
+export interface Pbkdf2Params {
+  algorithm: 'pbkdf2'
+  iterations: number
+  hash: 'SHA-256'
+}
+
+export interface ScryptParams {
+  algorithm: 'scrypt'
+  N: number
+  r: number
+  p: number
+}
+
+export type KdfParams = Pbkdf2Params | ScryptParams
+
+export const CURRENT_KEY_VERSION = 3
+
+// Raise these over time; stored keys below them are re-wrapped on next use
+export const DEFAULT_KDF_PARAMS: ScryptParams = { algorithm: 'scrypt', N: 2 ** 15, r: 8, p: 1 }
+
+// Parameters of keys written before the version was recorded
+const LEGACY_KDF_PARAMS: Pbkdf2Params = { algorithm: 'pbkdf2', iterations: 100000, hash: 'SHA-256' }
+
+// A user's data key, unwrapped, along with the columns that store it
+export interface DataKey {
+  dek: Uint8Array
+  wrappedDek: string
+  dekKeyId: string
+}
+
+export interface EncryptedKey {
+  encryptedPrivateKey: string
+  salt: string
+  iv: string
+  keyVersion: number
+  kdfParams: KdfParams
+  wrappedDek: string
+  dekKeyId: string
+}
+
+// What decryptPrivateKey needs. Rows from before versioning have no kdfParams.
+export interface StoredKey {
+  encryptedPrivateKey: string
+  salt: string
+  iv: string
+  keyVersion?: number | null
+  kdfParams?: KdfParams | null
+}
+
+// The data key columns on "User", NULL for users who haven't been migrated yet
+export interface StoredDataKey {
+  wrappedDek?: string | null
+  dekKeyId?: string | null
+}
+
+export const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+
+export const fromHex = (hex: string) =>
+  new Uint8Array(hex.match(/.{1,2}/g)!.map(byte => parseInt(byte, 16)))
+
+const resolveKdfParams = (stored: StoredKey): KdfParams => {
+  if (stored.kdfParams) {
+    return stored.kdfParams
+  }
+  if (!stored.keyVersion || stored.keyVersion === 1) {
+    return LEGACY_KDF_PARAMS
+  }
+  throw new Error(`Missing KDF parameters for key version ${stored.keyVersion}`)
+}
+
+// Generate a new data key for a user and wrap it with the active master key
+export const createDataKey = async (): Promise<DataKey> => {
+  const dek = crypto.getRandomValues(new Uint8Array(32))
+  const { wrappedKey, keyId } = await getKms().wrapKey(dek)
+
+  return { dek, wrappedDek: wrappedKey, dekKeyId: keyId }
+}
+
+// Unwrap the user's data key, or create one for users from before envelope
+// encryption. Throws if the master key is unavailable.
+export const getDataKey = async (user: StoredDataKey): Promise<DataKey> => {
+  if (!user.wrappedDek || !user.dekKeyId) {
+    return await createDataKey()
+  }
+
+  const dek = await getKms().unwrapKey({ wrappedKey: user.wrappedDek, keyId: user.dekKeyId })
+  return { dek, wrappedDek: user.wrappedDek, dekKeyId: user.dekKeyId }
+}
+
+// Stretch the user's password into 32 bytes of key material
+const derivePasswordBytes = async (password: string, salt: Uint8Array, params: KdfParams) => {
+  if (params.algorithm === 'scrypt') {
+    const keyBytes = await ethers.scrypt(
+      new TextEncoder().encode(password),
+      salt,
+      params.N,
+      params.r,
+      params.p,
+      32
+    )
+
+    return ethers.getBytes(keyBytes)
+  }
+
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  )
+
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: 'PBKDF2',
+      salt: salt,
+      iterations: params.iterations,
+      hash: params.hash,
+    },
+    keyMaterial,
+    256
+  )
+
+  return new Uint8Array(bits)
+}
+
+// Derive the AES-GCM key from the user's password, mixed with the data key
+// through HKDF when there is one (version 3 and up)
+const deriveKey = async (password: string, salt: Uint8Array, params: KdfParams, dek: Uint8Array | null) => {
+  const passwordBytes = await derivePasswordBytes(password, salt, params)
+
+  if (!dek) {
+    return await crypto.subtle.importKey(
+      'raw',
+      passwordBytes,
+      { name: 'AES-GCM' },
+      false,
+      ['encrypt', 'decrypt']
+    )
+  }
+
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    ethers.getBytes(ethers.concat([passwordBytes, dek])),
+    'HKDF',
+    false,
+    ['deriveKey']
+  )
+
+  return await crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: salt,
+      info: new TextEncoder().encode('web3tiktok custodial key'),
+    },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+// Encrypt a private key with a fresh random salt and IV
+export const encryptPrivateKey = async (
+  privateKey: string,
+  password: string,
+  dataKey: DataKey
+): Promise<EncryptedKey> => {
+  const salt = crypto.getRandomValues(new Uint8Array(32))
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const key = await deriveKey(password, salt, DEFAULT_KDF_PARAMS, dataKey.dek)
+
+  const encryptedPrivateKey = await crypto.subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv: iv,
+    },
+    key,
+    new TextEncoder().encode(privateKey)
+  )
+
+  return {
+    encryptedPrivateKey: toHex(new Uint8Array(encryptedPrivateKey)),
+    salt: toHex(salt),
+    iv: toHex(iv),
+    keyVersion: CURRENT_KEY_VERSION,
+    kdfParams: DEFAULT_KDF_PARAMS,
+    wrappedDek: dataKey.wrappedDek,
+    dekKeyId: dataKey.dekKeyId,
+  }
+}
+
+// Decrypt a private key. Throws if the password is wrong (GCM auth fails).
+// The data key is only used for version 3 keys and up.
+export const decryptPrivateKey = async (
+  encrypted: StoredKey,
+  password: string,
+  dataKey: DataKey
+): Promise<string> => {
+  const dek = (encrypted.keyVersion ?? 1) >= 3 ? dataKey.dek : null
+  const key = await deriveKey(password, fromHex(encrypted.salt), resolveKdfParams(encrypted), dek)
+
+  const decryptedBuffer = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: fromHex(encrypted.iv),
+    },
+    key,
+    fromHex(encrypted.encryptedPrivateKey)
+  )
+
+  return new TextDecoder().decode(decryptedBuffer)
+}
+
+// True when a stored key was encrypted with an older scheme or weaker KDF
+// parameters than new keys get
+export const isKeyOutdated = (stored: StoredKey) => {
+  const params = resolveKdfParams(stored)
+
+  if ((stored.keyVersion ?? 1) !== CURRENT_KEY_VERSION || params.algorithm !== 'scrypt') {
+    return true
+  }
+
+  return params.N < DEFAULT_KDF_PARAMS.N || params.r < DEFAULT_KDF_PARAMS.r || params.p < DEFAULT_KDF_PARAMS.p
+}
+
+// Re-encrypt the user's key under the current scheme after a successful
+// password use. Matching on the old ciphertext and data key means a concurrent
+// password change wins instead of being overwritten. Failures are logged, not
+// thrown: the key stays readable under the old scheme.
+export const rewrapOutdatedKey = async (
+  supabase: SupabaseClient,
+  user: StoredKey & StoredDataKey & { id: string },
+  dataKey: DataKey,
+  privateKey: string,
+  password: string
+) => {
+  if (!isKeyOutdated(user)) {
+    return
+  }
+
+  try {
+    const encrypted = await encryptPrivateKey(privateKey, password, dataKey)
+
+    let query = supabase
+      .from('User')
+      .update(encrypted)
+      .eq('id', user.id)
+      .eq('encryptedPrivateKey', user.encryptedPrivateKey)
+
+    // Never replace a data key the recovery copy may already depend on
+    query = user.wrappedDek ? query.eq('wrappedDek', user.wrappedDek) : query.is('wrappedDek', null)
+
+    const { error } = await query
+
+    if (error) {
+      throw error
+    }
+  } catch (error) {
+    console.error('Key re-wrap error:', error)
+  }
+}
+
+// Recovery phrases are compared word by word, so normalize case and whitespace
+// before using one as an encryption password
+export const normalizeRecoveryPhrase = (phrase: string) =>
+  phrase.trim().toLowerCase().split(/\s+/).join(' ')
@@ -0,0 +1,90 @@
+import { ethers } from 'https://esm.sh/ethers@6'
+import { normalizeRecoveryPhrase } from './walletCrypto.ts'
+
+// Turning user-supplied key material into a wallet at registration time.
+
+export type WalletImportType = 'mnemonic' | 'privateKey' | 'keystore'
+
+export interface WalletImport {
+  type: WalletImportType
+  value: string
+  keystorePassword?: string
+}
+
+export interface ImportedWallet {
+  address: string
+  privateKey: string
+  mnemonic: string | null // the BIP-39 phrase, when the wallet was derived from one
+}
+
+// Thrown for input that doesn't describe a usable wallet; the message is safe to show
+export class WalletImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WalletImportError'
+  }
+}
+
+const fromMnemonic = (value: string): ImportedWallet => {
+  const phrase = normalizeRecoveryPhrase(value)
+  if (!ethers.Mnemonic.isValidMnemonic(phrase)) {
+    throw new WalletImportError('Invalid recovery phrase')
+  }
+
+  // Standard Ethereum path (m/44'/60'/0'/0/0), the first account in MetaMask and most wallets
+  const wallet = ethers.HDNodeWallet.fromPhrase(phrase)
+  return { address: wallet.address, privateKey: wallet.privateKey, mnemonic: phrase }
+}
+
+const fromPrivateKey = (value: string): ImportedWallet => {
+  const trimmed = value.trim()
+  const privateKey = trimmed.startsWith('0x') ? trimmed : `0x${trimmed}`
+
+  if (!/^0x[0-9a-fA-F]{64}$/.test(privateKey)) {
+    throw new WalletImportError('Private key must be 32 bytes of hex')
+  }
+
+  try {
+    const wallet = new ethers.Wallet(privateKey)
+    return { address: wallet.address, privateKey: wallet.privateKey, mnemonic: null }
+  } catch (error) {
+    // Zero or out of range for secp256k1
+    throw new WalletImportError('Invalid private key')
+  }
+}
+
+const fromKeystore = async (value: string, keystorePassword?: string): Promise<ImportedWallet> => {
+  if (!ethers.isKeystoreJson(value)) {
+    throw new WalletImportError('File is not a Keystore V3 JSON file')
+  }
+
+  if (!keystorePassword) {
+    throw new WalletImportError('Keystore password is required')
+  }
+
+  let account: ethers.KeystoreAccount
+  try {
+    account = await ethers.decryptKeystoreJson(value, keystorePassword)
+  } catch (error) {
+    throw new WalletImportError('Invalid keystore password')
+  }
+
+  return { address: account.address, privateKey: account.privateKey, mnemonic: null }
+}
+
+export const importWallet = async (input: WalletImport): Promise<ImportedWallet> => {
+  if (!input.value) {
+    throw new WalletImportError('Wallet to import is required')
+  }
+
+  switch (input.type) {
+    case 'mnemonic':
+      return fromMnemonic(input.value)
+    case 'privateKey':
+      return fromPrivateKey(input.value)
+    case 'keystore':
+      return await fromKeystore(input.value, input.keystorePassword)
+    default:
+      throw new WalletImportError('Unsupported wallet type')
+  }
+}
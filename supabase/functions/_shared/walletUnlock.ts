@@ -0,0 +1,99 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ethers } from 'https://esm.sh/ethers@6'
+import { requireSecondFactor } from './mfa.ts'
+import { decryptPrivateKey, getDataKey, rewrapOutdatedKey } from './walletCrypto.ts'
+import {
+  clearFailures,
+  getRetryAfter,
+  recordFailure,
+  walletThrottleRules,
+} from './throttle.ts'
+
+// Everything an endpoint that signs with (or exports) the custodial wallet does
+// before it may use the key: throttle password guesses, decrypt the key, move
+// it to the current KDF and check the second factor.
+
+// Why a request was refused by unlockWallet, ready to be sent as JSON
+export interface WalletUnlockFailure {
+  status: number
+  error: string
+  code?: string
+  retryAfter?: number
+}
+
+export type WalletUnlockResult =
+  | { wallet: ethers.Wallet; failure: null }
+  | { wallet: null; failure: WalletUnlockFailure }
+
+const refuse = (failure: WalletUnlockFailure): WalletUnlockResult => ({ wallet: null, failure })
+
+const tooManyAttempts = (retryAfter: number) =>
+  refuse({
+    status: 429,
+    error: `Too many failed password attempts. Try again in ${retryAfter} seconds`,
+    code: 'too_many_attempts',
+    retryAfter,
+  })
+
+export const unlockWallet = async (
+  req: Request,
+  supabase: SupabaseClient,
+  userId: string,
+  password: string,
+  totpCode: string | undefined
+): Promise<WalletUnlockResult> => {
+  // Get user data including encrypted private key
+  const { data: user, error: userError } = await supabase
+    .from('User')
+    .select('id, walletAddress, encryptedPrivateKey, salt, iv, keyVersion, kdfParams, wrappedDek, dekKeyId, totpEnabled, totpSecret, totpLastUsedStep')
+    .eq('id', userId)
+    .single()
+
+  if (userError || !user) {
+    return refuse({ status: 404, error: 'User not found' })
+  }
+
+  // Accounts created with Sign-In With Ethereum have no custodial key to use
+  if (!user.encryptedPrivateKey) {
+    return refuse({ status: 400, error: 'This account has no custodial wallet', code: 'no_custodial_wallet' })
+  }
+
+  // Refuse password attempts while the wallet is locked out
+  const throttleRules = walletThrottleRules(user.id, req)
+  const lockedFor = await getRetryAfter(supabase, throttleRules)
+
+  if (lockedFor) {
+    return tooManyAttempts(lockedFor)
+  }
+
+  // Unwrapping the data key needs the server's master key, decrypting needs the password
+  const dataKey = await getDataKey(user)
+
+  let decryptedPrivateKey: string
+  try {
+    decryptedPrivateKey = await decryptPrivateKey(user, password, dataKey)
+  } catch (error) {
+    const retryAfter = await recordFailure(supabase, throttleRules)
+    return retryAfter ? tooManyAttempts(retryAfter) : refuse({ status: 401, error: 'Invalid password' })
+  }
+
+  await clearFailures(supabase, throttleRules)
+
+  // Move keys stored with an older KDF to the current one while we have the password
+  await rewrapOutdatedKey(supabase, user, dataKey, decryptedPrivateKey, password)
+
+  // Accounts with 2FA also need a TOTP or backup code to use the key
+  const mfaFailure = await requireSecondFactor(supabase, user, totpCode, req)
+  if (mfaFailure) {
+    return refuse(mfaFailure)
+  }
+
+  const wallet = new ethers.Wallet(decryptedPrivateKey)
+
+  // Verify wallet address matches user's wallet
+  if (wallet.address !== user.walletAddress) {
+    return refuse({ status: 500, error: 'Wallet address mismatch' })
+  }
+
+  return { wallet, failure: null }
+}
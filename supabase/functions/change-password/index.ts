@@ -0,0 +1,268 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ethers } from 'https://esm.sh/ethers@6'
+import { hash, verify as verifyPassword } from 'https://deno.land/x/bcrypt@v0.4.1/mod.ts'
+import { authenticate, revokeUserSessions } from '../_shared/auth.ts'
+import { requireSecondFactor } from '../_shared/mfa.ts'
+import { decryptPrivateKey, encryptPrivateKey, getDataKey } from '../_shared/walletCrypto.ts'
+import {
+  clearFailures,
+  getRetryAfter,
+  recordFailure,
+  walletThrottleRules,
+} from '../_shared/throttle.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ChangePasswordRequest {
+  currentPassword: string
+  newPassword: string
+  totpCode?: string
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify JWT token and make sure its session is still active
+    const payload = await authenticate(req, supabase)
+    if (!payload) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token', code: 'invalid_token' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const { currentPassword, newPassword, totpCode }: ChangePasswordRequest = await req.json()
+
+    // Validate input
+    if (!currentPassword || !newPassword) {
+      return new Response(
+        JSON.stringify({ error: 'Current password and new password are required' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Validate password strength
+    if (newPassword.length < 8) {
+      return new Response(
+        JSON.stringify({ error: 'Password must be at least 8 characters long' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (newPassword === currentPassword) {
+      return new Response(
+        JSON.stringify({ error: 'New password must be different from the current password' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Get user data including password hash and encrypted private key
+    const { data: user, error: userError } = await supabase
+      .from('User')
+      .select('id, passwordHash, walletAddress, encryptedPrivateKey, salt, iv, keyVersion, kdfParams, wrappedDek, dekKeyId, totpEnabled, totpSecret, totpLastUsedStep')
+      .eq('id', payload.sub)
+      .single()
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'User not found' }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Accounts created with Sign-In With Ethereum have no custodial key to use
+    if (!user.encryptedPrivateKey) {
+      return new Response(
+        JSON.stringify({ error: 'This account signs in with its own wallet and has no password', code: 'no_custodial_wallet' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Refuse password attempts while the wallet is locked out
+    const throttleRules = walletThrottleRules(user.id, req)
+    const lockedFor = await getRetryAfter(supabase, throttleRules)
+
+    if (lockedFor) {
+      return new Response(
+        JSON.stringify({
+          error: `Too many failed password attempts. Try again in ${lockedFor} seconds`,
+          code: 'too_many_attempts',
+          retryAfter: lockedFor,
+        }),
+        {
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(lockedFor) }
+        }
+      )
+    }
+
+    // Verify current password
+    const isValidPassword = await verifyPassword(currentPassword, user.passwordHash)
+
+    if (!isValidPassword) {
+      const retryAfter = await recordFailure(supabase, throttleRules)
+
+      if (retryAfter) {
+        return new Response(
+          JSON.stringify({
+            error: `Too many failed password attempts. Try again in ${retryAfter} seconds`,
+            code: 'too_many_attempts',
+            retryAfter,
+          }),
+          {
+            status: 429,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) }
+          }
+        )
+      }
+
+      return new Response(
+        JSON.stringify({ error: 'Current password is incorrect' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const dataKey = await getDataKey(user)
+
+    // Decrypt private key with the current password
+    let decryptedPrivateKey: string
+    try {
+      decryptedPrivateKey = await decryptPrivateKey(user, currentPassword, dataKey)
+    } catch (error) {
+      return new Response(
+        JSON.stringify({ error: 'Current password is incorrect' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    await clearFailures(supabase, throttleRules)
+
+    // Accounts with 2FA also need a TOTP or backup code to re-encrypt the wallet
+    const mfaFailure = await requireSecondFactor(supabase, user, totpCode, req)
+
+    if (mfaFailure) {
+      const { status, ...body } = mfaFailure
+      return new Response(
+        JSON.stringify(body),
+        {
+          status,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            ...(body.retryAfter ? { 'Retry-After': String(body.retryAfter) } : {}),
+          }
+        }
+      )
+    }
+
+    // Make sure the decrypted key still belongs to the user's wallet before re-encrypting it
+    if (new ethers.Wallet(decryptedPrivateKey).address !== user.walletAddress) {
+      return new Response(
+        JSON.stringify({ error: 'Wallet address mismatch' }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Re-encrypt private key with a fresh salt and IV under the new password
+    const encrypted = await encryptPrivateKey(decryptedPrivateKey, newPassword, dataKey)
+    const passwordHash = await hash(newPassword)
+
+    // Update password hash and encrypted key in a single statement. Matching on the
+    // old hash makes a concurrent password change fail instead of overwriting it.
+    const { data: updatedUser, error: updateError } = await supabase
+      .from('User')
+      .update({
+        passwordHash,
+        ...encrypted,
+        updatedAt: new Date().toISOString(),
+      })
+      .eq('id', user.id)
+      .eq('passwordHash', user.passwordHash)
+      .select('id')
+      .maybeSingle()
+
+    if (updateError) {
+      console.error('Database update error:', updateError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to change password' }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (!updatedUser) {
+      return new Response(
+        JSON.stringify({ error: 'Password was changed by another request, please try again' }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Sign out every other device that may have used the old password
+    await revokeUserSessions(supabase, user.id, payload.sid)
+
+    // Return success response
+    return new Response(
+      JSON.stringify({ message: 'Password changed successfully' }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Change password error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -0,0 +1,149 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authenticate } from '../_shared/auth.ts'
+import { quotaExceededError, reserveUpload } from '../_shared/quota.ts'
+import { VIDEOS_BUCKET, VIDEO_CONTENT_TYPES, createVideoPath } from '../_shared/videoStorage.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface CreateUploadRequest {
+  contentType: string
+  size: number // bytes
+}
+
+const MAX_UPLOAD_BYTES = 100 * 1024 * 1024 // 100MB
+const RESERVATION_TTL_MS = 2 * 60 * 60 * 1000 // signed upload URLs are valid for 2 hours
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify JWT token and make sure its session is still active
+    const payload = await authenticate(req, supabase)
+    if (!payload) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token', code: 'invalid_token' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const { contentType, size }: CreateUploadRequest = await req.json()
+
+    // Validate input
+    if (!contentType || !Number.isInteger(size) || size <= 0) {
+      return new Response(
+        JSON.stringify({ error: 'Content type and file size are required' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (!VIDEO_CONTENT_TYPES[contentType]) {
+      return new Response(
+        JSON.stringify({
+          error: `Unsupported video type. Allowed types: ${Object.keys(VIDEO_CONTENT_TYPES).join(', ')}`,
+          code: 'unsupported_content_type',
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (size > MAX_UPLOAD_BYTES) {
+      return new Response(
+        JSON.stringify({
+          error: `Video file must be at most ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB`,
+          code: 'file_too_large',
+          maxBytes: MAX_UPLOAD_BYTES,
+        }),
+        {
+          status: 413,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // The signed URL only allows uploading to this one path
+    const path = createVideoPath(payload.sub, contentType)
+
+    // upload-video-metadata only publishes reserved paths, and checks the stored
+    // file against the size and type declared here. Open reservations count
+    // against the quota, so unpublished uploads can't pile up past it.
+    const expiresAt = new Date(Date.now() + RESERVATION_TTL_MS).toISOString()
+
+    const quotaLimit = await reserveUpload(supabase, payload.sub, { path, contentType, size, expiresAt })
+    if (quotaLimit) {
+      return new Response(
+        JSON.stringify(quotaExceededError(quotaLimit)),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const { data: signedUpload, error: signError } = await supabase.storage
+      .from(VIDEOS_BUCKET)
+      .createSignedUploadUrl(path)
+
+    if (signError || !signedUpload) {
+      console.error('Signed upload URL error:', signError)
+
+      // Don't hold quota for an upload that can't happen
+      await supabase
+        .from('UploadReservation')
+        .delete()
+        .eq('path', path)
+
+      return new Response(
+        JSON.stringify({ error: 'Failed to create upload URL' }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        path,
+        token: signedUpload.token,
+        signedUrl: signedUpload.signedUrl,
+        expiresAt,
+      }),
+      {
+        status: 201,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Create upload error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
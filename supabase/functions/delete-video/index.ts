@@ -0,0 +1,249 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authenticate } from '../_shared/auth.ts'
+import { releaseQuota } from '../_shared/quota.ts'
+import { buildVideoRevision, signVideoRevision } from '../_shared/videoSignature.ts'
+import {
+  STREAMS_BUCKET,
+  THUMBNAILS_BUCKET,
+  VIDEOS_BUCKET,
+  getVideoStoragePath,
+  isOwnVideoPath,
+  isVideoPathReferenced,
+  removeStoredFolder,
+} from '../_shared/videoStorage.ts'
+import { unlockWallet } from '../_shared/walletUnlock.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface DeleteVideoRequest {
+  videoId: string
+  password: string
+  totpCode?: string
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify JWT token and make sure its session is still active
+    const payload = await authenticate(req, supabase)
+    if (!payload) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token', code: 'invalid_token' }),
+        { 
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const { videoId, password, totpCode }: DeleteVideoRequest = await req.json()
+
+    // Validate input
+    if (!videoId || !password) {
+      return new Response(
+        JSON.stringify({ error: 'Video ID and password are required' }),
+        { 
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Only the owner from the token may change a video
+    const { data: video } = await supabase
+      .from('Video')
+      .select('id, title, videoUrl, storagePath, fileSize, thumbnailPath, hlsPath, ownerId, contentHash')
+      .eq('id', videoId)
+      .maybeSingle()
+
+    if (!video) {
+      return new Response(
+        JSON.stringify({ error: 'Video not found' }),
+        { 
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (video.ownerId !== payload.sub) {
+      return new Response(
+        JSON.stringify({ error: 'You can only change your own videos' }),
+        { 
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Checks the password (throttled) and second factor, then decrypts the key
+    const unlocked = await unlockWallet(req, supabase, payload.sub, password, totpCode)
+
+    if (unlocked.failure) {
+      const { status, ...body } = unlocked.failure
+      return new Response(
+        JSON.stringify(body),
+        {
+          status,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            ...(body.retryAfter ? { 'Retry-After': String(body.retryAfter) } : {}),
+          }
+        }
+      )
+    }
+
+    const signer = unlocked.wallet
+
+    // Sign the revocation so the history can be checked against the owner's wallet
+    const revisionData = buildVideoRevision({
+      owner: signer.address,
+      videoId: video.id,
+      contentHash: video.contentHash,
+      action: 'delete',
+      title: null,
+    })
+
+    const revisionSignature = await signVideoRevision(signer, revisionData)
+
+    const { data: revision, error: revisionError } = await supabase
+      .from('VideoRevision')
+      .insert({
+        videoId: video.id,
+        ownerId: payload.sub,
+        action: 'delete',
+        title: null,
+        contentHash: video.contentHash,
+        signedData: revisionData,
+        signature: revisionSignature,
+      })
+      .select()
+      .single()
+
+    if (revisionError) {
+      console.error('Revision insert error:', revisionError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to save video revision' }),
+        { 
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Only the request that actually deleted the row gives back quota and files
+    const { data: deleted, error: deleteError } = await supabase
+      .from('Video')
+      .delete()
+      .eq('id', video.id)
+      .select('id')
+      .maybeSingle()
+
+    if (deleteError) {
+      console.error('Video delete error:', deleteError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to delete video' }),
+        { 
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Another request deleted it first and already saved the revocation
+    if (!deleted) {
+      await supabase
+        .from('VideoRevision')
+        .delete()
+        .eq('id', revision.id)
+
+      return new Response(
+        JSON.stringify({ error: 'Video not found' }),
+        { 
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // The row is gone either way; a file left behind only costs storage
+    // Videos published before quotas existed weren't counted, so there's nothing to give back
+    if (video.fileSize !== null) {
+      await releaseQuota(supabase, payload.sub, video.fileSize)
+    }
+
+    // Videos published before storagePath was recorded only have their URL, which
+    // the client chose. Only remove the caller's own file, and only once no other
+    // video uses it; anything else is left for reconcile-storage.
+    const storagePath = video.storagePath ?? getVideoStoragePath(video.videoUrl)
+    if (storagePath && isOwnVideoPath(storagePath, payload.sub)) {
+      try {
+        if (!(await isVideoPathReferenced(supabase, storagePath))) {
+          const { error: removeError } = await supabase.storage
+            .from(VIDEOS_BUCKET)
+            .remove([storagePath])
+
+          if (removeError) {
+            console.error('Storage remove error:', removeError)
+          }
+        }
+      } catch (referenceError) {
+        console.error('Storage reference check error:', referenceError)
+      }
+    }
+
+    if (video.thumbnailPath) {
+      const { error: removeError } = await supabase.storage
+        .from(THUMBNAILS_BUCKET)
+        .remove([video.thumbnailPath])
+
+      if (removeError) {
+        console.error('Thumbnail remove error:', removeError)
+      }
+    }
+
+    if (video.hlsPath) {
+      try {
+        await removeStoredFolder(supabase, STREAMS_BUCKET, video.hlsPath)
+      } catch (removeError) {
+        console.error('Stream remove error:', removeError)
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        message: 'Video deleted successfully',
+        revision,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Delete video error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
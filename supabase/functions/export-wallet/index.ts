@@ -0,0 +1,112 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authenticate } from '../_shared/auth.ts'
+import { unlockWallet } from '../_shared/walletUnlock.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ExportWalletRequest {
+  password: string
+  exportPassphrase: string
+  totpCode?: string
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify JWT token and make sure its session is still active
+    const payload = await authenticate(req, supabase)
+    if (!payload) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token', code: 'invalid_token' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const { password, exportPassphrase, totpCode }: ExportWalletRequest = await req.json()
+
+    // Validate input
+    if (!password || !exportPassphrase) {
+      return new Response(
+        JSON.stringify({ error: 'Password and export passphrase are required' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // The keystore file can be brute-forced offline, so the passphrase must be reasonably strong
+    if (exportPassphrase.length < 12) {
+      return new Response(
+        JSON.stringify({ error: 'Export passphrase must be at least 12 characters long' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Checks the password (throttled) and second factor, then decrypts the key
+    const unlocked = await unlockWallet(req, supabase, payload.sub, password, totpCode)
+
+    if (unlocked.failure) {
+      const { status, ...body } = unlocked.failure
+      return new Response(
+        JSON.stringify(body),
+        {
+          status,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            ...(body.retryAfter ? { 'Retry-After': String(body.retryAfter) } : {}),
+          }
+        }
+      )
+    }
+
+    const wallet = unlocked.wallet
+
+    // Web3 Secret Storage (Keystore V3) JSON, scrypt + AES-128-CTR. Only this
+    // encrypted form ever leaves the server, never the raw key.
+    const keystore = JSON.parse(await wallet.encrypt(exportPassphrase))
+
+    return new Response(
+      JSON.stringify({
+        message: 'Wallet exported successfully',
+        address: wallet.address,
+        keystore,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Export wallet error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -0,0 +1,125 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { decode, encode } from 'https://deno.land/std@0.168.0/encoding/base64url.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface FeedRequest {
+  cursor?: string | null
+  limit?: number
+}
+
+// Position after the last video of a page. Opaque to clients.
+interface FeedCursor {
+  createdAt: string
+  id: string
+}
+
+const DEFAULT_PAGE_SIZE = 10
+const MAX_PAGE_SIZE = 50
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// createdAt is kept exactly as the database returned it: rounding it to
+// milliseconds could skip videos published within the same millisecond
+const encodeCursor = (video: FeedCursor) =>
+  encode(JSON.stringify({ createdAt: video.createdAt, id: video.id }))
+
+const decodeCursor = (cursor: string): FeedCursor | null => {
+  try {
+    const { createdAt, id } = JSON.parse(new TextDecoder().decode(decode(cursor)))
+    if (typeof createdAt !== 'string' || isNaN(Date.parse(createdAt)) || !UUID_PATTERN.test(id)) {
+      return null
+    }
+    return { createdAt, id }
+  } catch (error) {
+    return null
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { cursor = null, limit = DEFAULT_PAGE_SIZE }: FeedRequest = await req.json().catch(() => ({}))
+
+    // Validate input
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return new Response(
+        JSON.stringify({ error: `Limit must be between 1 and ${MAX_PAGE_SIZE}` }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const position = cursor === null ? null : decodeCursor(cursor)
+    if (cursor !== null && !position) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid cursor' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // The feed is public, like the videos in it. One extra row tells whether
+    // there is another page.
+    const { data: videos, error } = await supabase
+      .rpc('get_feed', {
+        p_cursor_created_at: position?.createdAt ?? null,
+        p_cursor_id: position?.id ?? null,
+        p_limit: limit + 1,
+      })
+      .select(`
+        *,
+        owner:User!Video_ownerId_fkey (
+          id,
+          username,
+          walletAddress
+        )
+      `)
+
+    if (error) {
+      throw error
+    }
+
+    const page = videos.slice(0, limit)
+    const nextCursor = videos.length > limit ? encodeCursor(page[page.length - 1]) : null
+
+    return new Response(
+      JSON.stringify({
+        videos: page,
+        nextCursor,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Feed error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
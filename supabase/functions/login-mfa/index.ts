@@ -0,0 +1,130 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createSession, verifyMfaChallenge } from '../_shared/auth.ts'
+import { requireSecondFactor } from '../_shared/mfa.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface LoginMfaRequest {
+  challengeToken: string
+  code: string
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { challengeToken, code }: LoginMfaRequest = await req.json()
+
+    // Validate input
+    if (!challengeToken || !code) {
+      return new Response(
+        JSON.stringify({ error: 'Challenge token and code are required' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // The challenge proves the password step already succeeded
+    const userId = await verifyMfaChallenge(challengeToken)
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: 'Login challenge expired, please sign in again', code: 'invalid_challenge' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { data: user, error: userError } = await supabase
+      .from('User')
+      .select('id, email, username, walletAddress, encryptedPrivateKey, totpEnabled, totpSecret, totpLastUsedStep, createdAt')
+      .eq('id', userId)
+      .single()
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'User not found' }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Verify the TOTP or backup code; guessing has its own lockout
+    const mfaFailure = await requireSecondFactor(supabase, user, code, req)
+
+    if (mfaFailure) {
+      const { status, ...body } = mfaFailure
+      return new Response(
+        JSON.stringify(body),
+        {
+          status,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            ...(body.retryAfter ? { 'Retry-After': String(body.retryAfter) } : {}),
+          }
+        }
+      )
+    }
+
+    // Start a new session with a short-lived access token and a refresh token
+    const { token, refreshToken, expiresIn } = await createSession(supabase, user, req)
+
+    // Update last login timestamp
+    await supabase
+      .from('User')
+      .update({ updatedAt: new Date().toISOString() })
+      .eq('id', user.id)
+
+    // Return success response with JWT token
+    return new Response(
+      JSON.stringify({
+        message: 'Login successful',
+        token,
+        refreshToken,
+        expiresIn,
+        user: {
+          id: user.id,
+          email: user.email,
+          username: user.username,
+          walletAddress: user.walletAddress,
+          totpEnabled: user.totpEnabled,
+          hasCustodialWallet: !!user.encryptedPrivateKey,
+          createdAt: user.createdAt
+        }
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Login MFA error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -1,7 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { verify } from 'https://deno.land/x/bcrypt@v0.4.1/mod.ts'
-import { create, getNumericDate } from 'https://deno.land/x/djwt@v2.8/mod.ts'
+import { createMfaChallenge, createSession } from '../_shared/auth.ts'
+import { decryptPrivateKey, getDataKey, isKeyOutdated, rewrapOutdatedKey } from '../_shared/walletCrypto.ts'
+import {
+  clearFailures,
+  getRetryAfter,
+  loginThrottleRules,
+  recordFailure,
+} from '../_shared/throttle.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -39,27 +46,52 @@ serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-    // Find user by email
-    const { data: user, error: findError } = await supabase
-      .from('User')
-      .select('id, email, username, passwordHash, walletAddress, createdAt')
-      .eq('email', email)
-      .single()
+    // Refuse attempts while the account or client IP is locked out
+    const throttleRules = loginThrottleRules(email, req)
+    const lockedFor = await getRetryAfter(supabase, throttleRules)
 
-    if (findError || !user) {
+    if (lockedFor) {
       return new Response(
-        JSON.stringify({ error: 'Invalid email or password' }),
+        JSON.stringify({
+          error: `Too many failed login attempts. Try again in ${lockedFor} seconds`,
+          code: 'too_many_attempts',
+          retryAfter: lockedFor,
+        }),
         { 
-          status: 401,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(lockedFor) }
         }
       )
     }
 
-    // Verify password
-    const isValidPassword = await verify(password, user.passwordHash)
+    // Find user by email
+    const { data: user } = await supabase
+      .from('User')
+      .select('id, email, username, passwordHash, walletAddress, encryptedPrivateKey, salt, iv, keyVersion, kdfParams, wrappedDek, dekKeyId, totpEnabled, createdAt')
+      .eq('email', email)
+      .maybeSingle()
+
+    // Verify password. Wallet-only accounts (Sign-In With Ethereum) have no password.
+    const isValidPassword = user?.passwordHash ? await verify(password, user.passwordHash) : false
     
-    if (!isValidPassword) {
+    if (!user || !isValidPassword) {
+      // Unknown emails count as failures too, so lockouts don't reveal which accounts exist
+      const retryAfter = await recordFailure(supabase, throttleRules)
+
+      if (retryAfter) {
+        return new Response(
+          JSON.stringify({
+            error: `Too many failed login attempts. Try again in ${retryAfter} seconds`,
+            code: 'too_many_attempts',
+            retryAfter,
+          }),
+          { 
+            status: 429,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) }
+          }
+        )
+      }
+
       return new Response(
         JSON.stringify({ error: 'Invalid email or password' }),
         { 
@@ -69,25 +101,38 @@ serve(async (req) => {
       )
     }
 
-    // Generate JWT token
-    const jwtSecret = Deno.env.get('JWT_SECRET')!
-    const key = await crypto.subtle.importKey(
-      'raw',
-      new TextEncoder().encode(jwtSecret),
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['sign', 'verify']
-    )
+    await clearFailures(supabase, throttleRules)
+
+    // Login is the most common time we see the password, so use it to move keys
+    // stored with an older KDF to the current one
+    if (user.encryptedPrivateKey && isKeyOutdated(user)) {
+      try {
+        const dataKey = await getDataKey(user)
+        const privateKey = await decryptPrivateKey(user, password, dataKey)
+        await rewrapOutdatedKey(supabase, user, dataKey, privateKey, password)
+      } catch (error) {
+        console.error('Key re-wrap error:', error)
+      }
+    }
 
-    const payload = {
-      sub: user.id,
-      email: user.email,
-      walletAddress: user.walletAddress,
-      iat: getNumericDate(new Date()),
-      exp: getNumericDate(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)), // 7 days
+    // With 2FA enabled the password alone is not enough. Hand out a short-lived
+    // challenge to exchange for a session at /login-mfa together with a code.
+    if (user.totpEnabled) {
+      return new Response(
+        JSON.stringify({
+          message: 'Two-factor authentication required',
+          status: 'mfa_required',
+          challengeToken: await createMfaChallenge(user.id),
+        }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
     }
 
-    const token = await create({ alg: 'HS256', typ: 'JWT' }, payload, key)
+    // Start a new session with a short-lived access token and a refresh token
+    const { token, refreshToken, expiresIn } = await createSession(supabase, user, req)
 
     // Update last login timestamp
     await supabase
@@ -100,11 +145,15 @@ serve(async (req) => {
       JSON.stringify({
         message: 'Login successful',
         token,
+        refreshToken,
+        expiresIn,
         user: {
           id: user.id,
           email: user.email,
           username: user.username,
           walletAddress: user.walletAddress,
+          totpEnabled: user.totpEnabled,
+          hasCustodialWallet: !!user.encryptedPrivateKey,
           createdAt: user.createdAt
         }
       }),
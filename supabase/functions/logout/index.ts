@@ -0,0 +1,91 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authenticate, revokeSession, revokeUserSessions } from '../_shared/auth.ts'
+import { hashToken } from '../_shared/tokens.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface LogoutRequest {
+  refreshToken?: string
+  allDevices?: boolean
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { refreshToken, allDevices }: LogoutRequest = await req.json()
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const payload = await authenticate(req, supabase)
+
+    // Signing out everywhere needs a valid access token
+    if (allDevices) {
+      if (!payload) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid or expired token', code: 'invalid_token' }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      await revokeUserSessions(supabase, payload.sub)
+
+      return new Response(
+        JSON.stringify({ message: 'Signed out of all devices' }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Otherwise revoke the current session, found by access token or refresh token.
+    // The access token may already have expired, so the refresh token also works.
+    if (payload) {
+      await revokeSession(supabase, payload.sid)
+    } else if (refreshToken) {
+      const { data: session } = await supabase
+        .from('Session')
+        .select('id')
+        .eq('refreshTokenHash', await hashToken(refreshToken))
+        .maybeSingle()
+
+      if (session) {
+        await revokeSession(supabase, session.id)
+      }
+    }
+
+    // Logging out is idempotent, so unknown sessions still succeed
+    return new Response(
+      JSON.stringify({ message: 'Logged out successfully' }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Logout error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -0,0 +1,197 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { hashToken } from '../_shared/tokens.ts'
+import {
+  STREAMS_BUCKET,
+  THUMBNAILS_BUCKET,
+  VIDEOS_BUCKET,
+  getVideoStoragePath,
+  listStoredObjects,
+} from '../_shared/videoStorage.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ReconcileStorageRequest {
+  dryRun?: boolean
+  gracePeriodHours?: number
+}
+
+// Longer than an upload reservation lasts, so files still being uploaded or
+// waiting to be published are left alone. Also longer than the media worker
+// takes, so posters and streams it hasn't recorded on the video yet are safe.
+const DEFAULT_GRACE_PERIOD_HOURS = 24
+const MIN_GRACE_PERIOD_HOURS = 2
+const VIDEO_PAGE_SIZE = 1000
+const REMOVE_BATCH_SIZE = 100
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    // Only operators and the scheduled job, which call with the service role key.
+    // Comparing hashes keeps the comparison time independent of the key.
+    const authHeader = req.headers.get('Authorization') ?? ''
+    if (await hashToken(authHeader) !== await hashToken(`Bearer ${supabaseServiceKey}`)) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const {
+      dryRun = false,
+      gracePeriodHours = DEFAULT_GRACE_PERIOD_HOURS,
+    }: ReconcileStorageRequest = await req.json().catch(() => ({}))
+
+    // Validate input
+    if (typeof gracePeriodHours !== 'number' || gracePeriodHours < MIN_GRACE_PERIOD_HOURS) {
+      return new Response(
+        JSON.stringify({ error: `Grace period must be at least ${MIN_GRACE_PERIOD_HOURS} hours` }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Object paths of all videos, with their posters and stream folders. Older
+    // rows only have their URL.
+    const videoPaths = new Map<string, string>()
+    const thumbnailPaths = new Set<string>()
+    const hlsPaths = new Set<string>()
+    for (let from = 0; ; from += VIDEO_PAGE_SIZE) {
+      const { data: videos, error } = await supabase
+        .from('Video')
+        .select('id, videoUrl, storagePath, thumbnailPath, hlsPath')
+        .order('id')
+        .range(from, from + VIDEO_PAGE_SIZE - 1)
+
+      if (error) {
+        throw error
+      }
+
+      for (const video of videos) {
+        const path = video.storagePath ?? getVideoStoragePath(video.videoUrl)
+        if (path) {
+          videoPaths.set(path, video.id)
+        }
+        if (video.thumbnailPath) {
+          thumbnailPaths.add(video.thumbnailPath)
+        }
+        if (video.hlsPath) {
+          hlsPaths.add(video.hlsPath)
+        }
+      }
+
+      if (videos.length < VIDEO_PAGE_SIZE) {
+        break
+      }
+    }
+
+    // Stream objects belong to the video whose folder they're in
+    const inStreamFolder = (path: string) => {
+      const segments = path.split('/')
+      return segments.some((_, i) => i > 0 && hlsPaths.has(segments.slice(0, i).join('/')))
+    }
+
+    const buckets: { bucket: string; isUsed: (path: string) => boolean }[] = [
+      { bucket: VIDEOS_BUCKET, isUsed: (path) => videoPaths.has(path) },
+      { bucket: THUMBNAILS_BUCKET, isUsed: (path) => thumbnailPaths.has(path) },
+      { bucket: STREAMS_BUCKET, isUsed: inStreamFolder },
+    ]
+
+    const cutoff = Date.now() - gracePeriodHours * 60 * 60 * 1000
+    let scannedObjects = 0
+    const orphans: { bucket: string; path: string; size: number | null; createdAt: string }[] = []
+    let storedVideoPaths = new Set<string>()
+
+    for (const { bucket, isUsed } of buckets) {
+      const objects = await listStoredObjects(supabase, bucket)
+      scannedObjects += objects.length
+
+      if (bucket === VIDEOS_BUCKET) {
+        storedVideoPaths = new Set(objects.map((object) => object.path))
+      }
+
+      orphans.push(
+        ...objects
+          .filter((object) => !isUsed(object.path) && new Date(object.createdAt).getTime() < cutoff)
+          .map((object) => ({ bucket, ...object }))
+      )
+    }
+
+    // The reverse case can't be repaired here, only reported
+    const missingObjects = [...videoPaths]
+      .filter(([path]) => !storedVideoPaths.has(path))
+      .map(([path, videoId]) => ({ videoId, path }))
+
+    let deleted = 0
+    const failed: string[] = []
+
+    if (!dryRun) {
+      for (const { bucket } of buckets) {
+        const bucketOrphans = orphans.filter((object) => object.bucket === bucket)
+
+        for (let i = 0; i < bucketOrphans.length; i += REMOVE_BATCH_SIZE) {
+          const paths = bucketOrphans.slice(i, i + REMOVE_BATCH_SIZE).map((object) => object.path)
+          const { error: removeError } = await supabase.storage
+            .from(bucket)
+            .remove(paths)
+
+          if (removeError) {
+            console.error('Storage remove error:', removeError)
+            failed.push(...paths.map((path) => `${bucket}/${path}`))
+          } else {
+            deleted += paths.length
+          }
+        }
+      }
+    }
+
+    console.log(
+      `${dryRun ? '[dry run] ' : ''}Scanned ${scannedObjects} objects: ${orphans.length} orphaned, ` +
+      `${deleted} deleted, ${missingObjects.length} videos missing their file`
+    )
+
+    return new Response(
+      JSON.stringify({
+        dryRun,
+        gracePeriodHours,
+        scannedObjects,
+        orphans,
+        deleted,
+        failed,
+        missingObjects,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Reconcile storage error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
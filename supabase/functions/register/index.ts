@@ -2,6 +2,13 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { ethers } from 'https://esm.sh/ethers@6'
 import { hash } from 'https://deno.land/x/bcrypt@v0.4.1/mod.ts'
+import { createDataKey, encryptPrivateKey, normalizeRecoveryPhrase } from '../_shared/walletCrypto.ts'
+import {
+  importWallet as importExistingWallet,
+  WalletImportError,
+  type ImportedWallet,
+  type WalletImport,
+} from '../_shared/walletImport.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,6 +18,7 @@ const corsHeaders = {
 interface RegisterRequest {
   email: string
   password: string
+  importWallet?: WalletImport
 }
 
 serve(async (req) => {
@@ -20,7 +28,7 @@ serve(async (req) => {
   }
 
   try {
-    const { email, password }: RegisterRequest = await req.json()
+    const { email, password, importWallet }: RegisterRequest = await req.json()
 
     // Validate input
     if (!email || !password) {
@@ -79,55 +87,69 @@ serve(async (req) => {
       )
     }
 
-    // Hash password
-    const passwordHash = await hash(password)
+    // Use the wallet the user brought, or generate a new one
+    let wallet: ImportedWallet
+    if (importWallet) {
+      try {
+        wallet = await importExistingWallet(importWallet)
+      } catch (error) {
+        if (error instanceof WalletImportError) {
+          return new Response(
+            JSON.stringify({ error: error.message }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+        throw error
+      }
+    } else {
+      const randomWallet = ethers.Wallet.createRandom()
+      wallet = {
+        address: randomWallet.address,
+        privateKey: randomWallet.privateKey,
+        mnemonic: randomWallet.mnemonic!.phrase,
+      }
+    }
 
-    // Generate new Ethereum wallet
-    const wallet = ethers.Wallet.createRandom()
     const walletAddress = wallet.address
     const privateKey = wallet.privateKey
 
-    // Generate random salt and IV for encryption
-    const salt = crypto.getRandomValues(new Uint8Array(32))
-    const iv = crypto.getRandomValues(new Uint8Array(12))
-
-    // Create key from password using PBKDF2
-    const keyMaterial = await crypto.subtle.importKey(
-      'raw',
-      new TextEncoder().encode(password),
-      'PBKDF2',
-      false,
-      ['deriveBits', 'deriveKey']
-    )
+    // An address can only belong to one account
+    const { data: existingWallet } = await supabase
+      .from('User')
+      .select('id')
+      .eq('walletAddress', walletAddress)
+      .maybeSingle()
 
-    const key = await crypto.subtle.deriveKey(
-      {
-        name: 'PBKDF2',
-        salt: salt,
-        iterations: 100000,
-        hash: 'SHA-256',
-      },
-      keyMaterial,
-      { name: 'AES-GCM', length: 256 },
-      true,
-      ['encrypt', 'decrypt']
-    )
+    if (existingWallet) {
+      return new Response(
+        JSON.stringify({ error: 'This wallet is already linked to an account' }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
 
-    // Encrypt private key
-    const encryptedPrivateKey = await crypto.subtle.encrypt(
-      {
-        name: 'AES-GCM',
-        iv: iv,
-      },
-      key,
-      new TextEncoder().encode(privateKey)
-    )
+    // Users importing a recovery phrase already have it written down. Imported keys
+    // have none, so they get a fresh phrase that only protects the recovery copy.
+    const recoveryPhrase = wallet.mnemonic
+      ?? ethers.Mnemonic.fromEntropy(ethers.randomBytes(16)).phrase
+    const showRecoveryPhrase = !importWallet || importWallet.type !== 'mnemonic'
+
+    // Hash password
+    const passwordHash = await hash(password)
+
+    // Encrypt private key with a key derived from the user's password and a new
+    // data key wrapped by the server's master key
+    const dataKey = await createDataKey()
+    const encrypted = await encryptPrivateKey(privateKey, password, dataKey)
 
-    // Convert to hex strings for storage
-    const saltHex = Array.from(salt).map(b => b.toString(16).padStart(2, '0')).join('')
-    const ivHex = Array.from(iv).map(b => b.toString(16).padStart(2, '0')).join('')
-    const encryptedPrivateKeyHex = Array.from(new Uint8Array(encryptedPrivateKey))
-      .map(b => b.toString(16).padStart(2, '0')).join('')
+    // Keep a second copy encrypted under the recovery phrase so a password reset
+    // can re-wrap the key instead of losing the wallet
+    const recovery = await encryptPrivateKey(privateKey, normalizeRecoveryPhrase(recoveryPhrase), dataKey)
 
     // Save user to database
     const { data: user, error: insertError } = await supabase
@@ -137,13 +159,27 @@ serve(async (req) => {
         username: walletAddress, // Initially set username to wallet address
         passwordHash,
         walletAddress,
-        encryptedPrivateKey: encryptedPrivateKeyHex,
-        salt: saltHex,
-        iv: ivHex,
+        ...encrypted,
+        recoveryEncryptedPrivateKey: recovery.encryptedPrivateKey,
+        recoverySalt: recovery.salt,
+        recoveryIv: recovery.iv,
+        recoveryKeyVersion: recovery.keyVersion,
+        recoveryKdfParams: recovery.kdfParams,
       })
       .select()
       .single()
 
+    // Lost a race with another registration for the same email or wallet
+    if (insertError?.code === '23505') {
+      return new Response(
+        JSON.stringify({ error: 'An account with this email or wallet already exists' }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
     if (insertError) {
       console.error('Database insert error:', insertError)
       return new Response(
@@ -155,10 +191,12 @@ serve(async (req) => {
       )
     }
 
-    // Return success response (never include private key in response)
+    // Return success response (never include private key in response).
+    // The recovery phrase is returned exactly once and never stored in plain text.
     return new Response(
       JSON.stringify({
         message: 'User registered successfully',
+        recoveryPhrase: showRecoveryPhrase ? recoveryPhrase : null,
         user: {
           id: user.id,
           email: user.email,
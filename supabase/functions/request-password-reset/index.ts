@@ -0,0 +1,108 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { generateToken, hashToken } from '../_shared/tokens.ts'
+import { getEmailSender } from '../_shared/mailer.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface RequestPasswordResetRequest {
+  email: string
+}
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000 // 1 hour
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { email }: RequestPasswordResetRequest = await req.json()
+
+    // Validate input
+    if (!email) {
+      return new Response(
+        JSON.stringify({ error: 'Email is required' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Find user by email. Accounts without a recovery copy of their key cannot be
+    // reset without losing the wallet, so no email is sent for them.
+    const { data: user } = await supabase
+      .from('User')
+      .select('id, email, recoveryEncryptedPrivateKey')
+      .eq('email', email)
+      .maybeSingle()
+
+    if (user && user.recoveryEncryptedPrivateKey) {
+      const token = generateToken()
+
+      const { error: insertError } = await supabase
+        .from('PasswordResetToken')
+        .insert({
+          userId: user.id,
+          tokenHash: await hashToken(token),
+          expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS).toISOString(),
+        })
+
+      if (insertError) {
+        console.error('Database insert error:', insertError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to create reset token' }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      const appUrl = Deno.env.get('APP_URL') || 'http://localhost:3000'
+      await getEmailSender().send({
+        to: user.email,
+        subject: 'Reset your Web3TikTok password',
+        text: [
+          'We received a request to reset your password.',
+          '',
+          `Open this link within the next hour to choose a new password:`,
+          `${appUrl}/reset-password?token=${token}`,
+          '',
+          'You will need the recovery phrase you saved when you registered.',
+          'If you did not request this, you can ignore this email.',
+        ].join('\n'),
+      })
+    }
+
+    // Same response whether or not the account exists, to avoid leaking emails
+    return new Response(
+      JSON.stringify({ message: 'If an account exists for this email, a reset link has been sent' }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Request password reset error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -0,0 +1,218 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ethers } from 'https://esm.sh/ethers@6'
+import { hash } from 'https://deno.land/x/bcrypt@v0.4.1/mod.ts'
+import { revokeUserSessions } from '../_shared/auth.ts'
+import { hashToken } from '../_shared/tokens.ts'
+import {
+  decryptPrivateKey,
+  encryptPrivateKey,
+  getDataKey,
+  isKeyOutdated,
+  normalizeRecoveryPhrase,
+} from '../_shared/walletCrypto.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ResetPasswordRequest {
+  token: string
+  recoveryPhrase: string
+  newPassword: string
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { token, recoveryPhrase, newPassword }: ResetPasswordRequest = await req.json()
+
+    // Validate input
+    if (!token || !recoveryPhrase || !newPassword) {
+      return new Response(
+        JSON.stringify({ error: 'Reset token, recovery phrase, and new password are required' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Validate password strength
+    if (newPassword.length < 8) {
+      return new Response(
+        JSON.stringify({ error: 'Password must be at least 8 characters long' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Look up an unused, unexpired token
+    const { data: resetToken } = await supabase
+      .from('PasswordResetToken')
+      .select('id, userId')
+      .eq('tokenHash', await hashToken(token))
+      .is('usedAt', null)
+      .gt('expiresAt', new Date().toISOString())
+      .maybeSingle()
+
+    if (!resetToken) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired reset token' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Get the recovery copy of the user's private key
+    const { data: user, error: userError } = await supabase
+      .from('User')
+      .select('id, walletAddress, recoveryEncryptedPrivateKey, recoverySalt, recoveryIv, recoveryKeyVersion, recoveryKdfParams, wrappedDek, dekKeyId')
+      .eq('id', resetToken.userId)
+      .single()
+
+    if (userError || !user || !user.recoveryEncryptedPrivateKey) {
+      return new Response(
+        JSON.stringify({ error: 'Password reset is not available for this account' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Decrypt the recovery copy with the recovery phrase
+    const recoveryCopy = {
+      encryptedPrivateKey: user.recoveryEncryptedPrivateKey,
+      salt: user.recoverySalt,
+      iv: user.recoveryIv,
+      keyVersion: user.recoveryKeyVersion,
+      kdfParams: user.recoveryKdfParams,
+    }
+
+    const dataKey = await getDataKey(user)
+
+    let decryptedPrivateKey: string
+    try {
+      decryptedPrivateKey = await decryptPrivateKey(recoveryCopy, normalizeRecoveryPhrase(recoveryPhrase), dataKey)
+    } catch (error) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid recovery phrase' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (new ethers.Wallet(decryptedPrivateKey).address !== user.walletAddress) {
+      return new Response(
+        JSON.stringify({ error: 'Wallet address mismatch' }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Consume the token before changing anything, so it can only be used once
+    const { data: consumedToken } = await supabase
+      .from('PasswordResetToken')
+      .update({ usedAt: new Date().toISOString() })
+      .eq('id', resetToken.id)
+      .is('usedAt', null)
+      .select('id')
+      .maybeSingle()
+
+    if (!consumedToken) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired reset token' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Re-wrap the private key under the new password
+    const encrypted = await encryptPrivateKey(decryptedPrivateKey, newPassword, dataKey)
+    const passwordHash = await hash(newPassword)
+
+    // The recovery copy is only ever unlocked here, so this is also when it
+    // moves to the current KDF
+    const recovery = isKeyOutdated(recoveryCopy)
+      ? await encryptPrivateKey(decryptedPrivateKey, normalizeRecoveryPhrase(recoveryPhrase), dataKey)
+      : null
+
+    const { error: updateError } = await supabase
+      .from('User')
+      .update({
+        passwordHash,
+        ...encrypted,
+        ...(recovery && {
+          recoveryEncryptedPrivateKey: recovery.encryptedPrivateKey,
+          recoverySalt: recovery.salt,
+          recoveryIv: recovery.iv,
+          recoveryKeyVersion: recovery.keyVersion,
+          recoveryKdfParams: recovery.kdfParams,
+        }),
+        updatedAt: new Date().toISOString(),
+      })
+      .eq('id', user.id)
+
+    if (updateError) {
+      console.error('Database update error:', updateError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to reset password' }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Invalidate any other outstanding reset tokens for this user
+    await supabase
+      .from('PasswordResetToken')
+      .update({ usedAt: new Date().toISOString() })
+      .eq('userId', user.id)
+      .is('usedAt', null)
+
+    // Sign out all existing sessions
+    await revokeUserSessions(supabase, user.id)
+
+    // Return success response
+    return new Response(
+      JSON.stringify({ message: 'Password reset successfully' }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Reset password error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -0,0 +1,207 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ethers } from 'https://esm.sh/ethers@6'
+import { createMfaChallenge, createSession } from '../_shared/auth.ts'
+import { getSiweDomain, parseSiweMessage, validateSiweMessage } from '../_shared/siwe.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface SiweLoginRequest {
+  message: string
+  signature: string
+}
+
+const USER_COLUMNS = 'id, email, username, walletAddress, encryptedPrivateKey, totpEnabled, createdAt'
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { message, signature }: SiweLoginRequest = await req.json()
+
+    // Validate input
+    if (!message || !signature) {
+      return new Response(
+        JSON.stringify({ error: 'Message and signature are required' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const siwe = parseSiweMessage(message)
+    if (!siwe) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid Sign-In With Ethereum message' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const validationError = validateSiweMessage(siwe, getSiweDomain())
+    if (validationError) {
+      return new Response(
+        JSON.stringify({ error: validationError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // The signature must come from the address named in the message
+    let walletAddress: string
+    try {
+      walletAddress = ethers.getAddress(siwe.address)
+      if (ethers.verifyMessage(message, signature) !== walletAddress) {
+        throw new Error('Signer mismatch')
+      }
+    } catch (error) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid signature' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Consume the nonce so the signed message can't be replayed
+    const { data: consumedNonce } = await supabase
+      .from('SiweNonce')
+      .update({ usedAt: new Date().toISOString() })
+      .eq('nonce', siwe.nonce)
+      .is('usedAt', null)
+      .gt('expiresAt', new Date().toISOString())
+      .select('id')
+      .maybeSingle()
+
+    if (!consumedNonce) {
+      return new Response(
+        JSON.stringify({ error: 'Nonce is invalid, expired or already used' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Find the account for this wallet, creating one without a custodial key on first sign-in
+    let { data: user } = await supabase
+      .from('User')
+      .select(USER_COLUMNS)
+      .eq('walletAddress', walletAddress)
+      .maybeSingle()
+
+    if (!user) {
+      const { data: newUser, error: insertError } = await supabase
+        .from('User')
+        .insert({
+          username: walletAddress, // Initially set username to wallet address
+          walletAddress,
+        })
+        .select(USER_COLUMNS)
+        .single()
+
+      if (insertError && insertError.code !== '23505') {
+        console.error('Database insert error:', insertError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to create user account' }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      // A concurrent sign-in may have created the row first
+      user = newUser ?? (await supabase
+        .from('User')
+        .select(USER_COLUMNS)
+        .eq('walletAddress', walletAddress)
+        .single()).data
+    }
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Failed to create user account' }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Accounts with 2FA still need a code, exactly like password logins
+    if (user.totpEnabled) {
+      return new Response(
+        JSON.stringify({
+          message: 'Two-factor authentication required',
+          status: 'mfa_required',
+          challengeToken: await createMfaChallenge(user.id),
+        }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Start a new session with a short-lived access token and a refresh token
+    const { token, refreshToken, expiresIn } = await createSession(supabase, user, req)
+
+    // Update last login timestamp
+    await supabase
+      .from('User')
+      .update({ updatedAt: new Date().toISOString() })
+      .eq('id', user.id)
+
+    // Return the same response as a password login
+    return new Response(
+      JSON.stringify({
+        message: 'Login successful',
+        token,
+        refreshToken,
+        expiresIn,
+        user: {
+          id: user.id,
+          email: user.email,
+          username: user.username,
+          walletAddress: user.walletAddress,
+          totpEnabled: user.totpEnabled,
+          hasCustodialWallet: !!user.encryptedPrivateKey,
+          createdAt: user.createdAt
+        }
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('SIWE login error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
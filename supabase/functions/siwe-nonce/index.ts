@@ -0,0 +1,61 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { generateToken } from '../_shared/tokens.ts'
+import { SIWE_NONCE_TTL_SECONDS } from '../_shared/siwe.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // EIP-4361 nonces must be alphanumeric and at least 8 characters long
+    const nonce = generateToken(16)
+    const expiresAt = new Date(Date.now() + SIWE_NONCE_TTL_SECONDS * 1000).toISOString()
+
+    const { error: insertError } = await supabase
+      .from('SiweNonce')
+      .insert({ nonce, expiresAt })
+
+    if (insertError) {
+      console.error('Database insert error:', insertError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to create nonce' }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ nonce, expiresAt }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('SIWE nonce error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
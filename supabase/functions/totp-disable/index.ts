@@ -0,0 +1,197 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { verify as verifyPassword } from 'https://deno.land/x/bcrypt@v0.4.1/mod.ts'
+import { authenticate } from '../_shared/auth.ts'
+import { requireSecondFactor } from '../_shared/mfa.ts'
+import {
+  clearFailures,
+  getRetryAfter,
+  recordFailure,
+  walletThrottleRules,
+} from '../_shared/throttle.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface TotpDisableRequest {
+  password: string
+  totpCode: string
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify JWT token and make sure its session is still active
+    const payload = await authenticate(req, supabase)
+    if (!payload) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token', code: 'invalid_token' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const { password, totpCode }: TotpDisableRequest = await req.json()
+
+    // Validate input
+    if (!password || !totpCode) {
+      return new Response(
+        JSON.stringify({ error: 'Password and authentication code are required' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const { data: user, error: userError } = await supabase
+      .from('User')
+      .select('id, passwordHash, totpEnabled, totpSecret, totpLastUsedStep')
+      .eq('id', payload.sub)
+      .single()
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'User not found' }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (!user.totpEnabled) {
+      return new Response(
+        JSON.stringify({ error: 'Two-factor authentication is not enabled' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Refuse password attempts while the wallet is locked out
+    const throttleRules = walletThrottleRules(user.id, req)
+    const lockedFor = await getRetryAfter(supabase, throttleRules)
+
+    if (lockedFor) {
+      return new Response(
+        JSON.stringify({
+          error: `Too many failed password attempts. Try again in ${lockedFor} seconds`,
+          code: 'too_many_attempts',
+          retryAfter: lockedFor,
+        }),
+        {
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(lockedFor) }
+        }
+      )
+    }
+
+    // Verify password
+    const isValidPassword = await verifyPassword(password, user.passwordHash)
+
+    if (!isValidPassword) {
+      const retryAfter = await recordFailure(supabase, throttleRules)
+
+      if (retryAfter) {
+        return new Response(
+          JSON.stringify({
+            error: `Too many failed password attempts. Try again in ${retryAfter} seconds`,
+            code: 'too_many_attempts',
+            retryAfter,
+          }),
+          {
+            status: 429,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) }
+          }
+        )
+      }
+
+      return new Response(
+        JSON.stringify({ error: 'Invalid password' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    await clearFailures(supabase, throttleRules)
+
+    // Turning 2FA off needs a code too, so a leaked password alone can't do it
+    const mfaFailure = await requireSecondFactor(supabase, user, totpCode, req)
+
+    if (mfaFailure) {
+      const { status, ...body } = mfaFailure
+      return new Response(
+        JSON.stringify(body),
+        {
+          status,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            ...(body.retryAfter ? { 'Retry-After': String(body.retryAfter) } : {}),
+          }
+        }
+      )
+    }
+
+    const { error: updateError } = await supabase
+      .from('User')
+      .update({
+        totpEnabled: false,
+        totpSecret: null,
+        totpPendingSecret: null,
+        totpLastUsedStep: null,
+        updatedAt: new Date().toISOString(),
+      })
+      .eq('id', user.id)
+
+    if (updateError) {
+      console.error('Database update error:', updateError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to disable two-factor authentication' }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    await supabase.from('BackupCode').delete().eq('userId', user.id)
+
+    // Return success response
+    return new Response(
+      JSON.stringify({ message: 'Two-factor authentication disabled' }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('TOTP disable error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -0,0 +1,150 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authenticate } from '../_shared/auth.ts'
+import { generateBackupCodes, storeBackupCodes } from '../_shared/mfa.ts'
+import { verifyTotp } from '../_shared/totp.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface TotpEnableRequest {
+  code: string
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify JWT token and make sure its session is still active
+    const payload = await authenticate(req, supabase)
+    if (!payload) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token', code: 'invalid_token' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const { code }: TotpEnableRequest = await req.json()
+
+    // Validate input
+    if (!code) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication code is required' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const { data: user, error: userError } = await supabase
+      .from('User')
+      .select('id, totpEnabled, totpPendingSecret')
+      .eq('id', payload.sub)
+      .single()
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'User not found' }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (user.totpEnabled) {
+      return new Response(
+        JSON.stringify({ error: 'Two-factor authentication is already enabled' }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (!user.totpPendingSecret) {
+      return new Response(
+        JSON.stringify({ error: 'Start two-factor setup first' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Confirm the authenticator app produces valid codes for the pending secret
+    const step = await verifyTotp(user.totpPendingSecret, code.trim())
+
+    if (step === null) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid authentication code', code: 'invalid_mfa_code' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const backupCodes = generateBackupCodes()
+    await storeBackupCodes(supabase, user.id, backupCodes)
+
+    const { error: updateError } = await supabase
+      .from('User')
+      .update({
+        totpEnabled: true,
+        totpSecret: user.totpPendingSecret,
+        totpPendingSecret: null,
+        totpLastUsedStep: step,
+        updatedAt: new Date().toISOString(),
+      })
+      .eq('id', user.id)
+
+    if (updateError) {
+      console.error('Database update error:', updateError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to enable two-factor authentication' }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Backup codes are only ever returned here, in plain text, once
+    return new Response(
+      JSON.stringify({
+        message: 'Two-factor authentication enabled',
+        backupCodes,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('TOTP enable error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -0,0 +1,122 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { qrcode } from 'https://deno.land/x/qrcode@v2.0.0/mod.ts'
+import { authenticate } from '../_shared/auth.ts'
+import { buildOtpauthUri, generateTotpSecret } from '../_shared/totp.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const TOTP_ISSUER = 'Web3TikTok'
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify JWT token and make sure its session is still active
+    const payload = await authenticate(req, supabase)
+    if (!payload) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token', code: 'invalid_token' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const { data: user, error: userError } = await supabase
+      .from('User')
+      .select('id, email, passwordHash, totpEnabled')
+      .eq('id', payload.sub)
+      .single()
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'User not found' }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (user.totpEnabled) {
+      return new Response(
+        JSON.stringify({ error: 'Two-factor authentication is already enabled' }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Turning 2FA off again needs a password, which wallet-only accounts don't have
+    if (!user.passwordHash) {
+      return new Response(
+        JSON.stringify({ error: 'Two-factor authentication is only available for password accounts' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // The new secret stays pending until the user proves their app is set up
+    // by sending a valid code to /totp-enable
+    const secret = generateTotpSecret()
+
+    const { error: updateError } = await supabase
+      .from('User')
+      .update({ totpPendingSecret: secret })
+      .eq('id', user.id)
+
+    if (updateError) {
+      console.error('Database update error:', updateError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to start two-factor setup' }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const otpauthUri = buildOtpauthUri(secret, user.email, TOTP_ISSUER)
+
+    // Return the secret as a URI and as a QR code image (data URL)
+    return new Response(
+      JSON.stringify({
+        message: 'Scan the QR code with your authenticator app',
+        secret,
+        otpauthUri,
+        qrCode: await qrcode(otpauthUri),
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('TOTP setup error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
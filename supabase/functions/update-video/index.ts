@@ -0,0 +1,192 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authenticate } from '../_shared/auth.ts'
+import { buildVideoRevision, signVideoRevision } from '../_shared/videoSignature.ts'
+import { unlockWallet } from '../_shared/walletUnlock.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface UpdateVideoRequest {
+  videoId: string
+  title: string
+  password: string
+  totpCode?: string
+}
+
+const MAX_TITLE_LENGTH = 100
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify JWT token and make sure its session is still active
+    const payload = await authenticate(req, supabase)
+    if (!payload) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token', code: 'invalid_token' }),
+        { 
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const { videoId, title, password, totpCode }: UpdateVideoRequest = await req.json()
+
+    // Validate input
+    if (!videoId || !title || !password) {
+      return new Response(
+        JSON.stringify({ error: 'Video ID, title, and password are required' }),
+        { 
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (!title.trim() || title.length > MAX_TITLE_LENGTH) {
+      return new Response(
+        JSON.stringify({ error: `Title must be between 1 and ${MAX_TITLE_LENGTH} characters` }),
+        { 
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Only the owner from the token may change a video
+    const { data: video } = await supabase
+      .from('Video')
+      .select('id, title, ownerId, contentHash')
+      .eq('id', videoId)
+      .maybeSingle()
+
+    if (!video) {
+      return new Response(
+        JSON.stringify({ error: 'Video not found' }),
+        { 
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (video.ownerId !== payload.sub) {
+      return new Response(
+        JSON.stringify({ error: 'You can only change your own videos' }),
+        { 
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Checks the password (throttled) and second factor, then decrypts the key
+    const unlocked = await unlockWallet(req, supabase, payload.sub, password, totpCode)
+
+    if (unlocked.failure) {
+      const { status, ...body } = unlocked.failure
+      return new Response(
+        JSON.stringify(body),
+        {
+          status,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            ...(body.retryAfter ? { 'Retry-After': String(body.retryAfter) } : {}),
+          }
+        }
+      )
+    }
+
+    const signer = unlocked.wallet
+
+    // Sign the change so the history can be checked against the owner's wallet
+    const revisionData = buildVideoRevision({
+      owner: signer.address,
+      videoId: video.id,
+      contentHash: video.contentHash,
+      action: 'update',
+      title,
+    })
+
+    const revisionSignature = await signVideoRevision(signer, revisionData)
+
+    const { data: revision, error: revisionError } = await supabase
+      .from('VideoRevision')
+      .insert({
+        videoId: video.id,
+        ownerId: payload.sub,
+        action: 'update',
+        title,
+        contentHash: video.contentHash,
+        signedData: revisionData,
+        signature: revisionSignature,
+      })
+      .select()
+      .single()
+
+    if (revisionError) {
+      console.error('Revision insert error:', revisionError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to save video revision' }),
+        { 
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const { data: updatedVideo, error: updateError } = await supabase
+      .from('Video')
+      .update({ title })
+      .eq('id', video.id)
+      .select()
+      .single()
+
+    if (updateError) {
+      console.error('Video update error:', updateError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to update video' }),
+        { 
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        message: 'Video updated successfully',
+        video: updatedVideo,
+        revision,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Update video error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -1,7 +1,16 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import { ethers } from 'https://esm.sh/ethers@6'
-import { verify } from 'https://deno.land/x/djwt@v2.8/mod.ts'
+import { authenticate } from '../_shared/auth.ts'
+import { consumeQuota, quotaExceededError, releaseQuota } from '../_shared/quota.ts'
+import { DEFAULT_LICENSE, buildVideoManifest, signVideoManifest } from '../_shared/videoSignature.ts'
+import {
+  getStoredVideoInfo,
+  getVideoPublicUrl,
+  hashStoredVideo,
+  isOwnVideoPath,
+  isValidVideoPath,
+} from '../_shared/videoStorage.ts'
+import { unlockWallet } from '../_shared/walletUnlock.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,18 +18,16 @@ const corsHeaders = {
 }
 
 interface UploadVideoMetadataRequest {
-  videoUrl: string
+  path: string // object path in the videos bucket, as returned by create-upload
   title: string
   password: string
+  totpCode?: string
+  contentHash?: string // SHA-256 the client computed, checked against the stored file
+  license?: string
+  parentVideoId?: string // video this one is derived from (remix, reply, ...)
 }
 
-interface JWTPayload {
-  sub: string
-  email: string
-  walletAddress: string
-  iat: number
-  exp: number
-}
+const MAX_LICENSE_LENGTH = 100
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -29,11 +36,17 @@ serve(async (req) => {
   }
 
   try {
-    // Get JWT token from Authorization header
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify JWT token and make sure its session is still active
+    const payload = await authenticate(req, supabase)
+    if (!payload) {
       return new Response(
-        JSON.stringify({ error: 'Missing or invalid authorization token' }),
+        JSON.stringify({ error: 'Invalid or expired token', code: 'invalid_token' }),
         { 
           status: 401,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -41,150 +54,272 @@ serve(async (req) => {
       )
     }
 
-    const token = authHeader.substring(7) // Remove 'Bearer ' prefix
+    const {
+      path: storagePath,
+      title,
+      password,
+      totpCode,
+      contentHash: expectedContentHash,
+      license = DEFAULT_LICENSE,
+      parentVideoId,
+    }: UploadVideoMetadataRequest = await req.json()
 
-    // Verify JWT token
-    const jwtSecret = Deno.env.get('JWT_SECRET')!
-    const key = await crypto.subtle.importKey(
-      'raw',
-      new TextEncoder().encode(jwtSecret),
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['sign', 'verify']
-    )
+    // Validate input
+    if (!storagePath || !title || !password) {
+      return new Response(
+        JSON.stringify({ error: 'Video path, title, and password are required' }),
+        { 
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
 
-    let payload: JWTPayload
-    try {
-      payload = await verify(token, key) as JWTPayload
-    } catch (error) {
+    // The signature covers the file's hash, so only files in our bucket can be published
+    if (!isValidVideoPath(storagePath)) {
       return new Response(
-        JSON.stringify({ error: 'Invalid or expired token' }),
+        JSON.stringify({ error: 'Invalid video path' }),
         { 
-          status: 401,
+          status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
 
-    const { videoUrl, title, password }: UploadVideoMetadataRequest = await req.json()
+    if (!isOwnVideoPath(storagePath, payload.sub)) {
+      return new Response(
+        JSON.stringify({ error: 'You can only publish videos you uploaded' }),
+        { 
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
 
-    // Validate input
-    if (!videoUrl || !title || !password) {
+    // Each stored file backs at most one video
+    const { data: existingVideo } = await supabase
+      .from('Video')
+      .select('id')
+      .eq('storagePath', storagePath)
+      .maybeSingle()
+
+    if (existingVideo) {
       return new Response(
-        JSON.stringify({ error: 'Video URL, title, and password are required' }),
+        JSON.stringify({ error: 'This upload has already been published', code: 'upload_already_published' }),
         { 
-          status: 400,
+          status: 409,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
 
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    // Only files uploaded through a create-upload reservation can be published
+    const { data: reservation } = await supabase
+      .from('UploadReservation')
+      .select('id, contentType, size, usedAt')
+      .eq('path', storagePath)
+      .eq('userId', payload.sub)
+      .maybeSingle()
 
-    // Get user data including encrypted private key
-    const { data: user, error: userError } = await supabase
-      .from('User')
-      .select('id, email, walletAddress, encryptedPrivateKey, salt, iv')
-      .eq('id', payload.sub)
-      .single()
+    if (!reservation) {
+      return new Response(
+        JSON.stringify({ error: 'Video was not uploaded through create-upload', code: 'upload_not_reserved' }),
+        { 
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
 
-    if (userError || !user) {
+    if (reservation.usedAt) {
       return new Response(
-        JSON.stringify({ error: 'User not found' }),
+        JSON.stringify({ error: 'This upload has already been published', code: 'upload_already_published' }),
         { 
-          status: 404,
+          status: 409,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
 
-    // Convert hex strings back to Uint8Array
-    const salt = new Uint8Array(user.salt.match(/.{1,2}/g)!.map(byte => parseInt(byte, 16)))
-    const iv = new Uint8Array(user.iv.match(/.{1,2}/g)!.map(byte => parseInt(byte, 16)))
-    const encryptedPrivateKey = new Uint8Array(user.encryptedPrivateKey.match(/.{1,2}/g)!.map(byte => parseInt(byte, 16)))
+    if (!license.trim() || license.length > MAX_LICENSE_LENGTH) {
+      return new Response(
+        JSON.stringify({ error: `License must be between 1 and ${MAX_LICENSE_LENGTH} characters` }),
+        { 
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
 
-    // Derive key from password
-    const keyMaterial = await crypto.subtle.importKey(
-      'raw',
-      new TextEncoder().encode(password),
-      'PBKDF2',
-      false,
-      ['deriveBits', 'deriveKey']
-    )
+    // The manifest refers to the parent by its content hash, so it must have one
+    let parent: { id: string; contentHash: string } | null = null
+    if (parentVideoId) {
+      const { data: parentVideo } = await supabase
+        .from('Video')
+        .select('id, contentHash')
+        .eq('id', parentVideoId)
+        .not('contentHash', 'is', null)
+        .maybeSingle()
 
-    const key = await crypto.subtle.deriveKey(
-      {
-        name: 'PBKDF2',
-        salt: salt,
-        iterations: 100000,
-        hash: 'SHA-256',
-      },
-      keyMaterial,
-      { name: 'AES-GCM', length: 256 },
-      true,
-      ['encrypt', 'decrypt']
-    )
+      if (!parentVideo) {
+        return new Response(
+          JSON.stringify({ error: 'Parent video not found' }),
+          { 
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      parent = parentVideo
+    }
 
-    // Decrypt private key
-    let decryptedPrivateKey: string
-    try {
-      const decryptedBuffer = await crypto.subtle.decrypt(
+    // Checks the password (throttled) and second factor, then decrypts the key
+    const unlocked = await unlockWallet(req, supabase, payload.sub, password, totpCode)
+
+    if (unlocked.failure) {
+      const { status, ...body } = unlocked.failure
+      return new Response(
+        JSON.stringify(body),
         {
-          name: 'AES-GCM',
-          iv: iv,
-        },
-        key,
-        encryptedPrivateKey
+          status,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            ...(body.retryAfter ? { 'Retry-After': String(body.retryAfter) } : {}),
+          }
+        }
       )
-      decryptedPrivateKey = new TextDecoder().decode(decryptedBuffer)
-    } catch (error) {
+    }
+
+    const signer = unlocked.wallet
+
+    // The signed upload URL doesn't limit what was sent, so compare the stored
+    // file with what was declared when the upload was reserved
+    const storedInfo = await getStoredVideoInfo(storagePath)
+
+    if (!storedInfo) {
       return new Response(
-        JSON.stringify({ error: 'Invalid password' }),
+        JSON.stringify({ error: 'Uploaded video not found' }),
         { 
-          status: 401,
+          status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
 
-    // Create wallet signer
-    const signer = new ethers.Wallet(decryptedPrivateKey)
+    if (storedInfo.size !== reservation.size || storedInfo.contentType !== reservation.contentType) {
+      return new Response(
+        JSON.stringify({ error: 'Uploaded video does not match the reserved size and type', code: 'upload_mismatch' }),
+        { 
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Hash the stored file ourselves; the client's hash is only a consistency check
+    const contentHash = await hashStoredVideo(storagePath)
 
-    // Verify wallet address matches user's wallet
-    if (signer.address !== user.walletAddress) {
+    if (!contentHash) {
       return new Response(
-        JSON.stringify({ error: 'Wallet address mismatch' }),
+        JSON.stringify({ error: 'Uploaded video not found' }),
         { 
-          status: 500,
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (expectedContentHash && expectedContentHash.toLowerCase() !== contentHash) {
+      return new Response(
+        JSON.stringify({ error: 'Uploaded video does not match the selected file', code: 'content_hash_mismatch' }),
+        { 
+          status: 409,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
 
-    // Create message to sign (video URL as proof of ownership)
-    const message = `Video Upload: ${videoUrl}\nTitle: ${title}\nTimestamp: ${new Date().toISOString()}`
+    // Build the EIP-712 manifest (content hash as proof of ownership). It's
+    // stored as is so verify-video, or any wallet, can recover the signer later.
+    const manifest = buildVideoManifest({
+      owner: signer.address,
+      contentHash,
+      title,
+      license: license.trim(),
+      parentContentHash: parent?.contentHash ?? null,
+    })
     
-    // Sign the message
-    const signature = await signer.signMessage(message)
+    // Sign the manifest
+    const signature = await signVideoManifest(signer, manifest)
+
+    // Claim the reservation so the same upload can't be published twice
+    const { data: claimed } = await supabase
+      .from('UploadReservation')
+      .update({ usedAt: new Date().toISOString() })
+      .eq('id', reservation.id)
+      .is('usedAt', null)
+      .select('id')
+      .maybeSingle()
+
+    if (!claimed) {
+      return new Response(
+        JSON.stringify({ error: 'This upload has already been published', code: 'upload_already_published' }),
+        { 
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Count the video against the user's quota; other uploads may have used it up
+    const quotaLimit = await consumeQuota(supabase, payload.sub, storedInfo.size)
+
+    if (quotaLimit) {
+      await supabase
+        .from('UploadReservation')
+        .update({ usedAt: null })
+        .eq('id', reservation.id)
+
+      return new Response(
+        JSON.stringify(quotaExceededError(quotaLimit)),
+        { 
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
 
     // Save video metadata to database
     const { data: video, error: insertError } = await supabase
       .from('Video')
       .insert({
         title,
-        videoUrl,
-        ownerId: user.id,
+        videoUrl: getVideoPublicUrl(storagePath),
+        storagePath,
+        fileSize: storedInfo.size,
+        ownerId: payload.sub,
+        contentHash,
         signature,
+        manifest,
+        license: manifest.message.license,
+        parentId: parent?.id ?? null,
       })
       .select()
       .single()
 
     if (insertError) {
       console.error('Database insert error:', insertError)
+
+      // Let the user retry with the same upload
+      await supabase
+        .from('UploadReservation')
+        .update({ usedAt: null })
+        .eq('id', reservation.id)
+
+      await releaseQuota(supabase, payload.sub, storedInfo.size, true)
+
       return new Response(
         JSON.stringify({ error: 'Failed to save video metadata' }),
         { 
@@ -202,8 +337,15 @@ serve(async (req) => {
           id: video.id,
           title: video.title,
           videoUrl: video.videoUrl,
+          storagePath: video.storagePath,
+          fileSize: video.fileSize,
           ownerId: video.ownerId,
+          contentHash: video.contentHash,
           signature: video.signature,
+          signedMessage: video.signedMessage,
+          manifest: video.manifest,
+          license: video.license,
+          parentId: video.parentId,
           createdAt: video.createdAt
         }
       }),
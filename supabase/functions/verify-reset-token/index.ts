@@ -0,0 +1,81 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { hashToken } from '../_shared/tokens.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface VerifyResetTokenRequest {
+  token: string
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { token }: VerifyResetTokenRequest = await req.json()
+
+    // Validate input
+    if (!token) {
+      return new Response(
+        JSON.stringify({ error: 'Reset token is required' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Look up an unused, unexpired token
+    const { data: resetToken } = await supabase
+      .from('PasswordResetToken')
+      .select('id, user:User!PasswordResetToken_userId_fkey ( email )')
+      .eq('tokenHash', await hashToken(token))
+      .is('usedAt', null)
+      .gt('expiresAt', new Date().toISOString())
+      .maybeSingle()
+
+    if (!resetToken) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired reset token' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Return success response
+    return new Response(
+      JSON.stringify({
+        message: 'Reset token is valid',
+        email: (resetToken.user as { email: string } | null)?.email,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Verify reset token error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -0,0 +1,99 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { checkVideoSignature } from '../_shared/videoSignature.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface VerifyVideoRequest {
+  videoId: string
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { videoId }: VerifyVideoRequest = await req.json()
+
+    // Validate input
+    if (!videoId) {
+      return new Response(
+        JSON.stringify({ error: 'Video ID is required' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { data: video } = await supabase
+      .from('Video')
+      .select('id, title, videoUrl, contentHash, signature, signedMessage, manifest, owner:User!Video_ownerId_fkey ( walletAddress )')
+      .eq('id', videoId)
+      .maybeSingle()
+
+    if (!video) {
+      return new Response(
+        JSON.stringify({ error: 'Video not found' }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // The current title is signed by the latest edit, if there was one
+    const { data: latestRevision } = await supabase
+      .from('VideoRevision')
+      .select('id, title, signedData, signature, createdAt')
+      .eq('videoId', video.id)
+      .eq('action', 'update')
+      .order('createdAt', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    // Anyone can check a video, so this needs no authentication. Everything
+    // returned is enough to repeat the check with any Ethereum library, and
+    // contentHash lets a downloader confirm they got the signed file.
+    const ownerAddress = (video.owner as { walletAddress: string } | null)!.walletAddress
+    const result = checkVideoSignature(video, ownerAddress, latestRevision)
+
+    return new Response(
+      JSON.stringify({
+        videoId: video.id,
+        ...result,
+        ownerAddress,
+        contentHash: video.contentHash,
+        manifest: video.manifest,
+        signedMessage: video.signedMessage,
+        signature: video.signature,
+        latestRevision,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Verify video error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -1,15 +1,37 @@
 -- Tabel untuk Pengguna
 CREATE TABLE "User" (
     "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
-    "email" TEXT UNIQUE NOT NULL,
+    "email" TEXT UNIQUE, -- NULL untuk akun Sign-In With Ethereum
     "username" TEXT UNIQUE NOT NULL,
-    "passwordHash" TEXT NOT NULL,
+    "passwordHash" TEXT, -- NULL untuk akun Sign-In With Ethereum
     "walletAddress" TEXT UNIQUE NOT NULL,
-    "encryptedPrivateKey" TEXT NOT NULL,
-    "salt" TEXT NOT NULL,
-    "iv" TEXT NOT NULL,
+    -- Kunci privat kustodian, NULL jika pengguna memakai dompetnya sendiri
+    "encryptedPrivateKey" TEXT,
+    "salt" TEXT,
+    "iv" TEXT,
+    "keyVersion" INTEGER NOT NULL DEFAULT 1, -- Versi skema enkripsi kunci (1 = PBKDF2, 2 = scrypt, 3 = scrypt + kunci data)
+    "kdfParams" JSONB, -- Parameter KDF yang dipakai, NULL untuk kunci versi 1
+    -- Kunci data per pengguna, dibungkus dengan kunci master server (enkripsi amplop)
+    "wrappedDek" TEXT,
+    "dekKeyId" TEXT, -- ID kunci master yang membungkus kunci data
+    -- Salinan kunci privat yang dienkripsi dengan frasa pemulihan (untuk reset password)
+    "recoveryEncryptedPrivateKey" TEXT,
+    "recoverySalt" TEXT,
+    "recoveryIv" TEXT,
+    "recoveryKeyVersion" INTEGER,
+    "recoveryKdfParams" JSONB,
+    -- Autentikasi dua faktor (TOTP)
+    "totpEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "totpSecret" TEXT, -- Secret base32 yang aktif
+    "totpPendingSecret" TEXT, -- Secret baru yang belum dikonfirmasi
+    "totpLastUsedStep" BIGINT, -- Langkah waktu terakhir yang dipakai, mencegah pemakaian ulang kode
     "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
-    "updatedAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+    "updatedAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    -- Password accounts always have an email and a complete custodial key
+    CONSTRAINT "User_password_account_check" CHECK (
+        "passwordHash" IS NULL
+        OR ("email" IS NOT NULL AND "encryptedPrivateKey" IS NOT NULL AND "salt" IS NOT NULL AND "iv" IS NOT NULL)
+    )
 );
 
 -- Tabel untuk Video
@@ -17,37 +39,533 @@ CREATE TABLE "Video" (
     "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
     "title" TEXT NOT NULL,
     "videoUrl" TEXT NOT NULL,
+    "storagePath" TEXT UNIQUE, -- Path objek di bucket videos, NULL untuk video lama
+    "fileSize" BIGINT, -- Ukuran file (byte) yang dihitung ke kuota, NULL untuk video lama
     "ownerId" uuid NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+    "contentHash" TEXT, -- SHA-256 (hex) dari file video yang tersimpan, NULL untuk video lama
     "signature" TEXT NOT NULL, -- Bukti kepemilikan dari tanda tangan dompet
+    "manifest" JSONB, -- Manifest EIP-712 yang ditandatangani (types, primaryType, domain, message)
+    "signedMessage" TEXT, -- Pesan teks yang ditandatangani oleh video lama sebelum ada manifest
+    "license" TEXT,
+    "parentId" uuid REFERENCES "Video"(id) ON DELETE SET NULL, -- Video asal (remix), jika ada
+    -- Diisi oleh media worker setelah upload
+    "durationSeconds" DOUBLE PRECISION, -- Durasi video (detik)
+    "width" INTEGER, -- Lebar tampilan (piksel), sudah memperhitungkan rotasi
+    "height" INTEGER, -- Tinggi tampilan (piksel)
+    "videoCodec" TEXT, -- Nama codec dari ffprobe, contoh: 'h264'
+    "thumbnailPath" TEXT, -- Path poster di bucket thumbnails
+    "thumbnailUrl" TEXT, -- URL publik poster
+    "processingStatus" TEXT NOT NULL DEFAULT 'pending' CHECK ("processingStatus" IN ('pending', 'ready', 'failed')), -- Hanya video 'ready' yang tampil di feed
+    "hlsPath" TEXT, -- Folder stream HLS di bucket streams
+    "hlsUrl" TEXT, -- URL publik master playlist (.m3u8)
+    "likeCount" INTEGER NOT NULL DEFAULT 0, -- Jumlah baris "VideoLike", dijaga oleh trigger
+    "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Tabel untuk riwayat perubahan video (edit judul dan penghapusan) yang ditandatangani
+CREATE TABLE "VideoRevision" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "videoId" uuid NOT NULL, -- Tanpa foreign key agar riwayat tetap ada setelah video dihapus
+    "ownerId" uuid NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+    "action" TEXT NOT NULL CHECK ("action" IN ('update', 'delete')),
+    "title" TEXT, -- Judul baru, NULL untuk penghapusan
+    "contentHash" TEXT, -- contentHash video pada saat perubahan
+    "signedData" JSONB NOT NULL, -- Data EIP-712 "VideoRevision" yang ditandatangani
+    "signature" TEXT NOT NULL,
     "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
 );
 
+-- Tabel untuk reservasi upload video (path objek dipilih oleh server)
+CREATE TABLE "UploadReservation" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "userId" uuid NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+    "path" TEXT UNIQUE NOT NULL, -- Path objek di bucket videos, contoh: '<userId>/<uuid>.mp4'
+    "contentType" TEXT NOT NULL, -- Tipe MIME yang dideklarasikan saat reservasi
+    "size" BIGINT NOT NULL, -- Ukuran file yang dideklarasikan (byte)
+    "expiresAt" TIMESTAMP WITH TIME ZONE NOT NULL, -- Sama dengan masa berlaku signed upload URL
+    "usedAt" TIMESTAMP WITH TIME ZONE, -- Diisi saat video dipublikasikan
+    "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Tabel untuk kuota penyimpanan dan batas upload per pengguna
+CREATE TABLE "UserQuota" (
+    "userId" uuid PRIMARY KEY REFERENCES "User"(id) ON DELETE CASCADE,
+    "bytesUsed" BIGINT NOT NULL DEFAULT 0, -- Total ukuran video yang dipublikasikan
+    "videoCount" INTEGER NOT NULL DEFAULT 0,
+    "uploadsToday" INTEGER NOT NULL DEFAULT 0, -- Jumlah upload pada "uploadDay"
+    "uploadDay" DATE, -- Tanggal (UTC) yang dihitung oleh "uploadsToday"
+    "maxBytes" BIGINT NOT NULL DEFAULT 1073741824, -- 1GB
+    "maxVideos" INTEGER NOT NULL DEFAULT 100,
+    "dailyUploadLimit" INTEGER NOT NULL DEFAULT 10,
+    "updatedAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Tabel untuk like video
+CREATE TABLE "VideoLike" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "userId" uuid NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+    "videoId" uuid NOT NULL REFERENCES "Video"(id) ON DELETE CASCADE,
+    "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    CONSTRAINT "VideoLike_userId_videoId_key" UNIQUE ("userId", "videoId") -- Satu like per pengguna per video
+);
+
+-- Tabel untuk antrian pemrosesan video (metadata dan poster) oleh media worker
+CREATE TABLE "MediaJob" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "videoId" uuid NOT NULL REFERENCES "Video"(id) ON DELETE CASCADE,
+    "status" TEXT NOT NULL DEFAULT 'pending' CHECK ("status" IN ('pending', 'processing', 'done', 'failed')),
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT, -- Pesan error dari percobaan terakhir yang gagal
+    "lockedAt" TIMESTAMP WITH TIME ZONE, -- Waktu job diambil oleh worker
+    "runAfter" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL, -- Percobaan ulang ditunda sampai waktu ini
+    "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    "updatedAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Tabel untuk token reset password
+CREATE TABLE "PasswordResetToken" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "userId" uuid NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+    "tokenHash" TEXT UNIQUE NOT NULL, -- SHA-256 dari token, token asli hanya dikirim lewat email
+    "expiresAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+    "usedAt" TIMESTAMP WITH TIME ZONE,
+    "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Tabel untuk sesi login (refresh token)
+CREATE TABLE "Session" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "userId" uuid NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+    "refreshTokenHash" TEXT UNIQUE NOT NULL, -- SHA-256 dari refresh token yang aktif
+    "previousRefreshTokenHash" TEXT, -- Untuk mendeteksi pemakaian ulang token lama
+    "userAgent" TEXT,
+    "expiresAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+    "lastUsedAt" TIMESTAMP WITH TIME ZONE,
+    "revokedAt" TIMESTAMP WITH TIME ZONE,
+    "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Tabel untuk kode cadangan 2FA
+CREATE TABLE "BackupCode" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "userId" uuid NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+    "codeHash" TEXT NOT NULL, -- SHA-256 dari kode, kode asli hanya ditampilkan sekali
+    "usedAt" TIMESTAMP WITH TIME ZONE,
+    "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Tabel untuk nonce Sign-In With Ethereum (EIP-4361)
+CREATE TABLE "SiweNonce" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "nonce" TEXT UNIQUE NOT NULL,
+    "expiresAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+    "usedAt" TIMESTAMP WITH TIME ZONE, -- Setiap nonce hanya boleh dipakai sekali
+    "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Tabel untuk penghitung percobaan login/password yang gagal
+CREATE TABLE "AuthThrottle" (
+    "key" TEXT PRIMARY KEY, -- contoh: 'login:account:<email>', 'login:ip:<ip>', 'wallet:user:<id>'
+    "failureCount" INTEGER NOT NULL DEFAULT 0,
+    "lastFailureAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    "lockedUntil" TIMESTAMP WITH TIME ZONE
+);
+
 -- Enable Row Level Security (RLS)
 ALTER TABLE "User" ENABLE ROW LEVEL SECURITY;
 ALTER TABLE "Video" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "VideoRevision" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "UserQuota" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "VideoLike" ENABLE ROW LEVEL SECURITY;
+-- No policies: reset tokens, sessions, backup codes, nonces, auth throttles, upload reservations and media jobs are only accessed by Edge Functions and the media worker with the service role
+ALTER TABLE "PasswordResetToken" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "Session" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "BackupCode" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "SiweNonce" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "AuthThrottle" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "UploadReservation" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "MediaJob" ENABLE ROW LEVEL SECURITY;
+
+-- True when the request's access token belongs to a session that hasn't been revoked.
+-- The Edge Functions check this themselves; policies use it so logout and password
+-- changes also cut off direct table access.
+CREATE OR REPLACE FUNCTION is_active_session() RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM "Session"
+        WHERE "id" = (auth.jwt() ->> 'sid')::uuid
+          AND "userId" = auth.uid()
+          AND "revokedAt" IS NULL
+    );
+$$;
 
 -- RLS Policies for User table
 CREATE POLICY "Users can view own profile" ON "User"
-    FOR SELECT USING (auth.uid() = id);
+    FOR SELECT TO authenticated USING (auth.uid() = id AND is_active_session());
 
 CREATE POLICY "Users can update own profile" ON "User"
-    FOR UPDATE USING (auth.uid() = id);
+    FOR UPDATE TO authenticated USING (auth.uid() = id AND is_active_session());
 
 -- RLS Policies for Video table
 CREATE POLICY "Videos are viewable by everyone" ON "Video"
     FOR SELECT USING (true);
 
-CREATE POLICY "Users can insert own videos" ON "Video"
-    FOR INSERT WITH CHECK (auth.uid() = "ownerId");
+-- Videos are created, edited and deleted only through Edge Functions, which sign
+-- each change with the owner's wallet, so there are no write policies.
+
+-- RLS Policies for VideoRevision table
+CREATE POLICY "Video revisions are viewable by everyone" ON "VideoRevision"
+    FOR SELECT USING (true);
+
+-- RLS Policies for UserQuota table
+CREATE POLICY "Users can view own quota" ON "UserQuota"
+    FOR SELECT TO authenticated USING (auth.uid() = "userId" AND is_active_session());
+
+-- RLS Policies for VideoLike table. Who liked what stays private; videos only
+-- show the count.
+CREATE POLICY "Users can view own likes" ON "VideoLike"
+    FOR SELECT TO authenticated USING (auth.uid() = "userId" AND is_active_session());
+
+CREATE POLICY "Users can like videos" ON "VideoLike"
+    FOR INSERT TO authenticated WITH CHECK (auth.uid() = "userId" AND is_active_session());
+
+CREATE POLICY "Users can remove own likes" ON "VideoLike"
+    FOR DELETE TO authenticated USING (auth.uid() = "userId" AND is_active_session());
+
+-- Table and column privileges for the anon and authenticated roles. Key material,
+-- password hashes and 2FA secrets on "User" are never exposed to client tokens.
+REVOKE ALL ON "User" FROM anon, authenticated;
+GRANT SELECT ("id", "email", "username", "walletAddress", "totpEnabled", "createdAt", "updatedAt")
+    ON "User" TO authenticated;
+GRANT UPDATE ("username", "updatedAt") ON "User" TO authenticated;
+
+REVOKE INSERT, UPDATE, DELETE ON "Video" FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON "Video" FROM authenticated;
+REVOKE INSERT, UPDATE, DELETE ON "VideoRevision" FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON "UserQuota" FROM anon, authenticated;
+REVOKE ALL ON "VideoLike" FROM anon;
+REVOKE UPDATE ON "VideoLike" FROM authenticated;
+-- Deleting or forging throttle rows would lift or impose lockouts
+REVOKE ALL ON "AuthThrottle" FROM anon, authenticated;
+
+-- Record a failed attempt for a throttle key and return the new lockout end, if any.
+-- Counting happens in one statement so concurrent failures can't be lost.
+CREATE OR REPLACE FUNCTION record_auth_failure(
+    p_key TEXT,
+    p_threshold INTEGER,
+    p_base_delay_seconds INTEGER,
+    p_max_delay_seconds INTEGER,
+    p_reset_after_seconds INTEGER
+) RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_count INTEGER;
+    v_locked_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+    INSERT INTO "AuthThrottle" ("key", "failureCount", "lastFailureAt")
+    VALUES (p_key, 1, now())
+    ON CONFLICT ("key") DO UPDATE SET
+        "failureCount" = CASE
+            WHEN "AuthThrottle"."lastFailureAt" < now() - make_interval(secs => p_reset_after_seconds) THEN 1
+            ELSE "AuthThrottle"."failureCount" + 1
+        END,
+        "lastFailureAt" = now()
+    RETURNING "failureCount" INTO v_count;
+
+    -- Exponential backoff once the threshold is reached
+    IF v_count >= p_threshold THEN
+        v_locked_until := now() + make_interval(secs => LEAST(
+            p_max_delay_seconds,
+            p_base_delay_seconds * power(2, LEAST(v_count - p_threshold, 16))
+        ));
+
+        UPDATE "AuthThrottle" SET "lockedUntil" = v_locked_until WHERE "key" = p_key;
+    END IF;
+
+    RETURN v_locked_until;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_auth_failure FROM PUBLIC, anon, authenticated;
+
+-- Every user starts with the default quota
+CREATE OR REPLACE FUNCTION create_user_quota() RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    INSERT INTO "UserQuota" ("userId") VALUES (NEW."id") ON CONFLICT ("userId") DO NOTHING;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_user_quota_on_insert
+    AFTER INSERT ON "User"
+    FOR EACH ROW EXECUTE FUNCTION create_user_quota();
+
+-- Count a published video against the user's quota. Returns the limit it would
+-- exceed ('storage', 'videos' or 'daily_uploads') and changes nothing in that
+-- case, otherwise NULL. The row is locked so concurrent uploads can't overshoot.
+CREATE OR REPLACE FUNCTION consume_upload_quota(
+    p_user_id uuid,
+    p_bytes BIGINT
+) RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_quota "UserQuota";
+    v_today DATE := (now() AT TIME ZONE 'utc')::date;
+    v_uploads_today INTEGER;
+BEGIN
+    INSERT INTO "UserQuota" ("userId") VALUES (p_user_id) ON CONFLICT ("userId") DO NOTHING;
+
+    SELECT * INTO v_quota FROM "UserQuota" WHERE "userId" = p_user_id FOR UPDATE;
+
+    v_uploads_today := CASE WHEN v_quota."uploadDay" = v_today THEN v_quota."uploadsToday" ELSE 0 END;
+
+    IF v_quota."bytesUsed" + p_bytes > v_quota."maxBytes" THEN
+        RETURN 'storage';
+    ELSIF v_quota."videoCount" >= v_quota."maxVideos" THEN
+        RETURN 'videos';
+    ELSIF v_uploads_today >= v_quota."dailyUploadLimit" THEN
+        RETURN 'daily_uploads';
+    END IF;
+
+    UPDATE "UserQuota" SET
+        "bytesUsed" = "bytesUsed" + p_bytes,
+        "videoCount" = "videoCount" + 1,
+        "uploadsToday" = v_uploads_today + 1,
+        "uploadDay" = v_today,
+        "updatedAt" = now()
+    WHERE "userId" = p_user_id;
+
+    RETURN NULL;
+END;
+$$;
+
+-- Reserve an object path for a new upload, counting the user's other open
+-- reservations as if they were already published. Returns the limit it would
+-- exceed and reserves nothing in that case, otherwise NULL. Locks the quota row
+-- like consume_upload_quota, so concurrent requests can't reserve past a limit.
+CREATE OR REPLACE FUNCTION reserve_upload(
+    p_user_id uuid,
+    p_path TEXT,
+    p_content_type TEXT,
+    p_size BIGINT,
+    p_expires_at TIMESTAMP WITH TIME ZONE
+) RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_quota "UserQuota";
+    v_today DATE := (now() AT TIME ZONE 'utc')::date;
+    v_uploads_today INTEGER;
+    v_open_bytes BIGINT;
+    v_open_count INTEGER;
+BEGIN
+    INSERT INTO "UserQuota" ("userId") VALUES (p_user_id) ON CONFLICT ("userId") DO NOTHING;
+
+    SELECT * INTO v_quota FROM "UserQuota" WHERE "userId" = p_user_id FOR UPDATE;
+
+    SELECT COALESCE(SUM("size"), 0), COUNT(*) INTO v_open_bytes, v_open_count
+    FROM "UploadReservation"
+    WHERE "userId" = p_user_id AND "usedAt" IS NULL AND "expiresAt" > now();
+
+    v_uploads_today := CASE WHEN v_quota."uploadDay" = v_today THEN v_quota."uploadsToday" ELSE 0 END;
+
+    IF v_quota."bytesUsed" + v_open_bytes + p_size > v_quota."maxBytes" THEN
+        RETURN 'storage';
+    ELSIF v_quota."videoCount" + v_open_count >= v_quota."maxVideos" THEN
+        RETURN 'videos';
+    ELSIF v_uploads_today + v_open_count >= v_quota."dailyUploadLimit" THEN
+        RETURN 'daily_uploads';
+    END IF;
+
+    INSERT INTO "UploadReservation" ("userId", "path", "contentType", "size", "expiresAt")
+    VALUES (p_user_id, p_path, p_content_type, p_size, p_expires_at);
+
+    RETURN NULL;
+END;
+$$;
+
+-- Give back the space of a deleted video. p_refund_upload also gives back
+-- today's upload, for videos that failed to save.
+CREATE OR REPLACE FUNCTION release_upload_quota(
+    p_user_id uuid,
+    p_bytes BIGINT,
+    p_refund_upload BOOLEAN DEFAULT false
+) RETURNS VOID
+LANGUAGE sql
+AS $$
+    UPDATE "UserQuota" SET
+        "bytesUsed" = GREATEST("bytesUsed" - p_bytes, 0),
+        "videoCount" = GREATEST("videoCount" - 1, 0),
+        "uploadsToday" = CASE
+            WHEN p_refund_upload AND "uploadDay" = (now() AT TIME ZONE 'utc')::date THEN GREATEST("uploadsToday" - 1, 0)
+            ELSE "uploadsToday"
+        END,
+        "updatedAt" = now()
+    WHERE "userId" = p_user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION consume_upload_quota FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reserve_upload FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_upload_quota FROM PUBLIC, anon, authenticated;
+
+-- Every published video is queued for the media worker
+CREATE OR REPLACE FUNCTION enqueue_media_job() RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    INSERT INTO "MediaJob" ("videoId") VALUES (NEW."id");
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_media_job_on_insert
+    AFTER INSERT ON "Video"
+    FOR EACH ROW EXECUTE FUNCTION enqueue_media_job();
+
+-- Hand the oldest waiting job that is due to a worker. Jobs left in 'processing'
+-- longer than p_stale_after_seconds belonged to a worker that died and are handed
+-- out again, or failed along with their video if that was the last attempt.
+-- SKIP LOCKED lets several workers poll without taking the same job.
+CREATE OR REPLACE FUNCTION claim_media_job(
+    p_max_attempts INTEGER,
+    p_stale_after_seconds INTEGER
+) RETURNS SETOF "MediaJob"
+LANGUAGE sql
+AS $$
+    WITH abandoned AS (
+        UPDATE "MediaJob" SET
+            "status" = 'failed',
+            "lastError" = 'Worker stopped during the last attempt',
+            "lockedAt" = NULL,
+            "updatedAt" = now()
+        WHERE "status" = 'processing'
+          AND "attempts" >= p_max_attempts
+          AND "lockedAt" < now() - make_interval(secs => p_stale_after_seconds)
+        RETURNING "videoId"
+    )
+    UPDATE "Video" SET "processingStatus" = 'failed'
+    WHERE "id" IN (SELECT "videoId" FROM abandoned);
+
+    UPDATE "MediaJob" SET
+        "status" = 'processing',
+        "attempts" = "attempts" + 1,
+        "lockedAt" = now(),
+        "updatedAt" = now()
+    WHERE "id" = (
+        SELECT "id" FROM "MediaJob"
+        WHERE "attempts" < p_max_attempts
+          AND "runAfter" <= now()
+          AND ("status" = 'pending'
+            OR ("status" = 'processing' AND "lockedAt" < now() - make_interval(secs => p_stale_after_seconds)))
+        ORDER BY "createdAt"
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_media_job FROM PUBLIC, anon, authenticated;
+
+-- Keep "Video"."likeCount" in step with "VideoLike". Runs as the table owner
+-- because clients can't update "Video" themselves.
+CREATE OR REPLACE FUNCTION update_video_like_count() RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        UPDATE "Video" SET "likeCount" = "likeCount" + 1 WHERE "id" = NEW."videoId";
+        RETURN NEW;
+    END IF;
+
+    UPDATE "Video" SET "likeCount" = GREATEST("likeCount" - 1, 0) WHERE "id" = OLD."videoId";
+    RETURN OLD;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION update_video_like_count FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER update_video_like_count_on_change
+    AFTER INSERT OR DELETE ON "VideoLike"
+    FOR EACH ROW EXECUTE FUNCTION update_video_like_count();
+
+-- Like or unlike a video as the signed-in user and return its new like count.
+-- Both are idempotent, so a repeated request can't count twice. They run as
+-- the caller, so the VideoLike policies apply.
+CREATE OR REPLACE FUNCTION like_video(p_video_id uuid) RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_like_count INTEGER;
+BEGIN
+    INSERT INTO "VideoLike" ("userId", "videoId") VALUES (auth.uid(), p_video_id)
+    ON CONFLICT ("userId", "videoId") DO NOTHING;
+
+    SELECT "likeCount" INTO v_like_count FROM "Video" WHERE "id" = p_video_id;
+    RETURN v_like_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION unlike_video(p_video_id uuid) RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_like_count INTEGER;
+BEGIN
+    DELETE FROM "VideoLike" WHERE "userId" = auth.uid() AND "videoId" = p_video_id;
+
+    SELECT "likeCount" INTO v_like_count FROM "Video" WHERE "id" = p_video_id;
+    RETURN v_like_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION like_video FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION unlike_video FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION like_video TO authenticated;
+GRANT EXECUTE ON FUNCTION unlike_video TO authenticated;
 
-CREATE POLICY "Users can update own videos" ON "Video"
-    FOR UPDATE USING (auth.uid() = "ownerId");
+-- One page of the feed: ready videos, newest first. Pages are keyed on
+-- ("createdAt", "id") of the last video of the previous page rather than an
+-- offset, so they stay fast deep into the feed and don't skip or repeat
+-- videos when new ones are published in between.
+CREATE OR REPLACE FUNCTION get_feed(
+    p_cursor_created_at TIMESTAMP WITH TIME ZONE,
+    p_cursor_id uuid,
+    p_limit INTEGER
+) RETURNS SETOF "Video"
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT * FROM "Video"
+    WHERE "processingStatus" = 'ready'
+      AND (p_cursor_created_at IS NULL OR ("createdAt", "id") < (p_cursor_created_at, p_cursor_id))
+    ORDER BY "createdAt" DESC, "id" DESC
+    LIMIT p_limit;
+$$;
 
-CREATE POLICY "Users can delete own videos" ON "Video"
-    FOR DELETE USING (auth.uid() = "ownerId");
+REVOKE EXECUTE ON FUNCTION get_feed FROM PUBLIC, anon, authenticated;
 
 -- Create indexes for better performance
 CREATE INDEX idx_user_email ON "User"(email);
 CREATE INDEX idx_user_wallet_address ON "User"("walletAddress");
 CREATE INDEX idx_video_owner_id ON "Video"("ownerId");
-CREATE INDEX idx_video_created_at ON "Video"("createdAt" DESC);
\ No newline at end of file
+CREATE INDEX idx_video_created_at ON "Video"("createdAt" DESC);
+CREATE INDEX idx_password_reset_token_user_id ON "PasswordResetToken"("userId");
+CREATE INDEX idx_session_user_id ON "Session"("userId");
+CREATE INDEX idx_session_previous_refresh_token_hash ON "Session"("previousRefreshTokenHash");
+CREATE INDEX idx_backup_code_user_id ON "BackupCode"("userId");
+CREATE INDEX idx_video_parent_id ON "Video"("parentId");
+CREATE INDEX idx_video_revision_video_id ON "VideoRevision"("videoId", "createdAt" DESC);
+CREATE INDEX idx_upload_reservation_user_id ON "UploadReservation"("userId");
+CREATE INDEX idx_media_job_status_created_at ON "MediaJob"("status", "createdAt");
+CREATE INDEX idx_video_feed ON "Video"("processingStatus", "createdAt" DESC, "id" DESC);
+CREATE INDEX idx_video_like_video_id ON "VideoLike"("videoId");
\ No newline at end of file
@@ -0,0 +1,88 @@
+// Re-wrap every user's data key with the active master key after a rotation.
+// Only the wrapping changes: data keys and encrypted private keys stay the same,
+// so no user passwords are needed.
+//
+// Usage (with the same KMS_* configuration as the Edge Functions, where the new
+// key is active and the old one is still available to unwrap):
+//
+//   deno run --allow-env --allow-net --allow-read supabase/scripts/rotate-master-key.ts [--dry-run]
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getKms } from '../functions/_shared/kms.ts'
+
+const BATCH_SIZE = 100
+
+const dryRun = Deno.args.includes('--dry-run')
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+)
+
+const kms = getKms()
+const activeKeyId = await kms.activeKeyId()
+
+let rewrapped = 0
+let failed = 0
+let lastId: string | null = null
+
+console.log(`${dryRun ? '[dry run] ' : ''}Re-wrapping data keys with master key "${activeKeyId}"`)
+
+while (true) {
+  let query = supabase
+    .from('User')
+    .select('id, wrappedDek, dekKeyId')
+    .not('wrappedDek', 'is', null)
+    .neq('dekKeyId', activeKeyId)
+    .order('id')
+    .limit(BATCH_SIZE)
+
+  if (lastId) {
+    query = query.gt('id', lastId)
+  }
+
+  const { data: users, error } = await query
+
+  if (error) {
+    console.error('Failed to load users:', error)
+    Deno.exit(1)
+  }
+
+  if (!users.length) {
+    break
+  }
+
+  for (const user of users) {
+    lastId = user.id
+
+    try {
+      const dek = await kms.unwrapKey({ wrappedKey: user.wrappedDek, keyId: user.dekKeyId })
+
+      if (!dryRun) {
+        const { wrappedKey, keyId } = await kms.wrapKey(dek)
+
+        // Matching on the old value skips users whose key changed meanwhile
+        const { error: updateError } = await supabase
+          .from('User')
+          .update({ wrappedDek: wrappedKey, dekKeyId: keyId })
+          .eq('id', user.id)
+          .eq('wrappedDek', user.wrappedDek)
+
+        if (updateError) {
+          throw updateError
+        }
+      }
+
+      rewrapped++
+    } catch (error) {
+      console.error(`Failed to re-wrap data key for user ${user.id}:`, error)
+      failed++
+    }
+  }
+}
+
+console.log(`${dryRun ? 'Would re-wrap' : 'Re-wrapped'} ${rewrapped} data keys, ${failed} failed`)
+
+if (failed > 0) {
+  Deno.exit(1)
+}
@@ -0,0 +1,132 @@
+// Wrappers around the ffprobe and ffmpeg binaries. They are looked up on PATH
+// unless FFPROBE_PATH / FFMPEG_PATH point somewhere else.
+
+const FFPROBE = Deno.env.get('FFPROBE_PATH') ?? 'ffprobe'
+const FFMPEG = Deno.env.get('FFMPEG_PATH') ?? 'ffmpeg'
+
+const POSTER_MAX_WIDTH = 720
+
+export interface MediaInfo {
+  durationSeconds: number | null
+  width: number | null
+  height: number | null
+  videoCodec: string | null
+}
+
+// The parts of `ffprobe -print_format json` output read below
+interface FfprobeStream {
+  codec_type?: string
+  codec_name?: string
+  width?: number
+  height?: number
+  duration?: string
+  tags?: { rotate?: string }
+  side_data_list?: { rotation?: number }[]
+}
+
+interface FfprobeOutput {
+  streams?: FfprobeStream[]
+  format?: { duration?: string }
+}
+
+const run = async (command: string, args: string[]) => {
+  const { code, stdout, stderr } = await new Deno.Command(command, {
+    args,
+    stdout: 'piped',
+    stderr: 'piped',
+  }).output()
+
+  if (code !== 0) {
+    const message = new TextDecoder().decode(stderr).trim().slice(-500)
+    throw new Error(`${command} exited with code ${code}: ${message}`)
+  }
+
+  return new TextDecoder().decode(stdout)
+}
+
+const toNumber = (value: unknown) => {
+  const number = Number(value)
+  return value !== undefined && value !== null && Number.isFinite(number) ? number : null
+}
+
+export const probeVideo = async (path: string): Promise<MediaInfo> => {
+  const output: FfprobeOutput = JSON.parse(
+    await run(FFPROBE, ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', path])
+  )
+
+  const stream = output.streams?.find((s) => s.codec_type === 'video')
+  if (!stream) {
+    throw new Error('No video stream found')
+  }
+
+  // Phones store portrait video as landscape frames with a rotation flag;
+  // players (and the poster below) show it upright, so report it that way
+  const rotation = toNumber(
+    stream.side_data_list?.find((data) => data.rotation !== undefined)?.rotation ?? stream.tags?.rotate
+  )
+  const sideways = rotation !== null && Math.abs(rotation) % 180 === 90
+  const width = toNumber(stream.width)
+  const height = toNumber(stream.height)
+
+  return {
+    durationSeconds: toNumber(output.format?.duration ?? stream.duration),
+    width: sideways ? height : width,
+    height: sideways ? width : height,
+    videoCodec: stream.codec_name ?? null,
+  }
+}
+
+// Write the frame at `atSeconds` as a JPEG, scaled down to POSTER_MAX_WIDTH
+export const extractPoster = async (input: string, output: string, atSeconds: number) => {
+  await run(FFMPEG, [
+    '-v', 'error',
+    '-y',
+    '-ss', atSeconds.toFixed(3),
+    '-i', input,
+    '-frames:v', '1',
+    '-vf', `scale=min(${POSTER_MAX_WIDTH}\\,iw):-2`,
+    '-q:v', '3',
+    output,
+  ])
+}
+
+export interface RenditionOptions {
+  width: number
+  height: number
+  videoBitrate: number // kbit/s
+  audioBitrate: number // kbit/s
+  segmentSeconds: number
+}
+
+// Encode one HLS rendition into `outputDir` as index.m3u8 and numbered .ts
+// segments. Keyframes are forced on segment boundaries so every rendition is
+// cut at the same times and players can switch between them cleanly.
+export const transcodeRendition = async (input: string, outputDir: string, options: RenditionOptions) => {
+  const { width, height, videoBitrate, audioBitrate, segmentSeconds } = options
+
+  await run(FFMPEG, [
+    '-v', 'error',
+    '-y',
+    '-i', input,
+    '-map', '0:v:0',
+    '-map', '0:a:0?',
+    '-vf', `scale=${width}:${height}`,
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-profile:v', 'main',
+    '-pix_fmt', 'yuv420p',
+    '-b:v', `${videoBitrate}k`,
+    '-maxrate', `${videoBitrate}k`,
+    '-bufsize', `${videoBitrate * 2}k`,
+    '-force_key_frames', `expr:gte(t,n_forced*${segmentSeconds})`,
+    '-sc_threshold', '0',
+    '-c:a', 'aac',
+    '-b:a', `${audioBitrate}k`,
+    '-ac', '2',
+    '-f', 'hls',
+    '-hls_time', String(segmentSeconds),
+    '-hls_playlist_type', 'vod',
+    '-hls_segment_filename', `${outputDir}/segment_%03d.ts`,
+    `${outputDir}/index.m3u8`,
+  ])
+}
@@ -0,0 +1,60 @@
+import type { MediaInfo } from './ffmpeg.ts'
+
+// The HLS renditions offered for each video, named after the shorter side so
+// portrait videos get the same ladder as landscape ones.
+
+export const SEGMENT_SECONDS = 4
+
+export const HLS_LADDER = [
+  { name: '240p', shortSide: 240, videoBitrate: 400, audioBitrate: 64 },
+  { name: '480p', shortSide: 480, videoBitrate: 1200, audioBitrate: 96 },
+  { name: '720p', shortSide: 720, videoBitrate: 2800, audioBitrate: 128 },
+]
+
+export const MASTER_PLAYLIST = 'master.m3u8'
+
+export interface Rendition {
+  name: string
+  width: number
+  height: number
+  videoBitrate: number // kbit/s
+  audioBitrate: number // kbit/s
+}
+
+// x264 needs even dimensions
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2)
+
+// Rungs up to the source's size; nothing is upscaled. A source smaller than the
+// lowest rung still gets that rung's bitrate at its own size.
+export const planRenditions = (info: MediaInfo): Rendition[] => {
+  if (!info.width || !info.height) {
+    throw new Error('Video dimensions are unknown')
+  }
+
+  const shortSide = Math.min(info.width, info.height)
+  const rungs = HLS_LADDER.filter((rung) => rung.shortSide <= shortSide)
+
+  return (rungs.length > 0 ? rungs : HLS_LADDER.slice(0, 1)).map((rung) => {
+    const scale = Math.min(1, rung.shortSide / shortSide)
+
+    return {
+      name: rung.name,
+      width: even(info.width! * scale),
+      height: even(info.height! * scale),
+      videoBitrate: rung.videoBitrate,
+      audioBitrate: rung.audioBitrate,
+    }
+  })
+}
+
+// Lists every rendition's playlist, which lives in a folder named after it
+export const buildMasterPlaylist = (renditions: Rendition[]) =>
+  [
+    '#EXTM3U',
+    '#EXT-X-VERSION:3',
+    ...renditions.flatMap((rendition) => [
+      `#EXT-X-STREAM-INF:BANDWIDTH=${(rendition.videoBitrate + rendition.audioBitrate) * 1000},RESOLUTION=${rendition.width}x${rendition.height}`,
+      `${rendition.name}/index.m3u8`,
+    ]),
+    '',
+  ].join('\n')
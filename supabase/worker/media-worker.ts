@@ -0,0 +1,245 @@
+// Process queued "MediaJob" rows: read each new video's duration, dimensions
+// and codec with ffprobe, store a poster frame in the "thumbnails" bucket and
+// transcode the video to an HLS ladder in the "streams" bucket. The video is
+// marked ready once all of it is stored. Edge Functions can't run ffmpeg, so
+// this runs as a separate process.
+//
+// Usage (with ffmpeg and ffprobe installed):
+//
+//   deno run --allow-env --allow-net --allow-read --allow-write --allow-run supabase/worker/media-worker.ts [--once]
+//
+// With --once it exits when the queue is empty instead of polling, e.g. to run
+// it from cron.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  STREAMS_BUCKET,
+  THUMBNAILS_BUCKET,
+  downloadStoredVideo,
+  getVideoStoragePath,
+  removeStoredFolder,
+} from '../functions/_shared/videoStorage.ts'
+import { extractPoster, probeVideo, transcodeRendition } from './ffmpeg.ts'
+import { MASTER_PLAYLIST, SEGMENT_SECONDS, buildMasterPlaylist, planRenditions } from './hls.ts'
+
+const MAX_ATTEMPTS = 3
+const STALE_AFTER_SECONDS = 60 * 60 // a job processing for longer belongs to a worker that died
+const RETRY_DELAY_MS = 60 * 1000 // doubled after every failed attempt
+const POLL_INTERVAL_MS = 5000
+
+const STREAM_CONTENT_TYPES: Record<string, string> = {
+  m3u8: 'application/vnd.apple.mpegurl',
+  ts: 'video/mp2t',
+}
+
+interface MediaJob {
+  id: string
+  videoId: string
+  attempts: number
+}
+
+const once = Deno.args.includes('--once')
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+)
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Upload every file below `localDir` to the same relative path under `remoteDir`
+const uploadStream = async (localDir: string, remoteDir: string) => {
+  for await (const entry of Deno.readDir(localDir)) {
+    const localPath = `${localDir}/${entry.name}`
+    const remotePath = `${remoteDir}/${entry.name}`
+
+    if (entry.isDirectory) {
+      await uploadStream(localPath, remotePath)
+      continue
+    }
+
+    const extension = entry.name.split('.').pop() ?? ''
+    const { error } = await supabase.storage
+      .from(STREAMS_BUCKET)
+      .upload(remotePath, await Deno.readFile(localPath), {
+        contentType: STREAM_CONTENT_TYPES[extension] ?? 'application/octet-stream',
+        upsert: true,
+      })
+
+    if (error) {
+      throw error
+    }
+  }
+}
+
+const processJob = async (job: MediaJob) => {
+  const { data: video, error } = await supabase
+    .from('Video')
+    .select('id, ownerId, videoUrl, storagePath')
+    .eq('id', job.videoId)
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  const path = video.storagePath ?? getVideoStoragePath(video.videoUrl)
+  if (!path) {
+    throw new Error('Video is not stored in the videos bucket')
+  }
+
+  const workDir = await Deno.makeTempDir({ prefix: 'media-job-' })
+
+  try {
+    const input = `${workDir}/video`
+    const poster = `${workDir}/poster.jpg`
+    const streamDir = `${workDir}/hls`
+
+    await downloadStoredVideo(path, input)
+    const info = await probeVideo(input)
+
+    // The very first frame is often black; one second in (or halfway through
+    // a shorter clip) usually shows something
+    await extractPoster(input, poster, Math.min(1, (info.durationSeconds ?? 0) / 2))
+
+    const thumbnailPath = `${video.ownerId}/${video.id}.jpg`
+    const { error: uploadError } = await supabase.storage
+      .from(THUMBNAILS_BUCKET)
+      .upload(thumbnailPath, await Deno.readFile(poster), {
+        contentType: 'image/jpeg',
+        upsert: true,
+      })
+
+    if (uploadError) {
+      throw uploadError
+    }
+
+    const renditions = planRenditions(info)
+    for (const rendition of renditions) {
+      await Deno.mkdir(`${streamDir}/${rendition.name}`, { recursive: true })
+      await transcodeRendition(input, `${streamDir}/${rendition.name}`, {
+        ...rendition,
+        segmentSeconds: SEGMENT_SECONDS,
+      })
+    }
+    await Deno.writeTextFile(`${streamDir}/${MASTER_PLAYLIST}`, buildMasterPlaylist(renditions))
+
+    // An earlier attempt may have left segments this one doesn't overwrite
+    const hlsPath = `${video.ownerId}/${video.id}`
+    await removeStoredFolder(supabase, STREAMS_BUCKET, hlsPath)
+    await uploadStream(streamDir, hlsPath)
+
+    const thumbnailUrl = supabase.storage.from(THUMBNAILS_BUCKET).getPublicUrl(thumbnailPath).data.publicUrl
+    const hlsUrl = supabase.storage.from(STREAMS_BUCKET).getPublicUrl(`${hlsPath}/${MASTER_PLAYLIST}`).data.publicUrl
+
+    const { data: updated, error: updateError } = await supabase
+      .from('Video')
+      .update({
+        ...info,
+        thumbnailPath,
+        thumbnailUrl,
+        hlsPath,
+        hlsUrl,
+        processingStatus: 'ready',
+      })
+      .eq('id', video.id)
+      .select('id')
+      .maybeSingle()
+
+    if (updateError) {
+      throw updateError
+    }
+
+    // The video was deleted while it was processed. delete-video only removed
+    // the files named on the row, which didn't include these yet.
+    // Anything left behind is picked up by reconcile-storage.
+    if (!updated) {
+      console.log(`Video ${video.id} was deleted while processing, removing its poster and stream`)
+
+      const { error: removeError } = await supabase.storage.from(THUMBNAILS_BUCKET).remove([thumbnailPath])
+      if (removeError) {
+        console.error('Thumbnail remove error:', removeError)
+      }
+
+      try {
+        await removeStoredFolder(supabase, STREAMS_BUCKET, hlsPath)
+      } catch (streamError) {
+        console.error('Stream remove error:', streamError)
+      }
+    }
+  } finally {
+    await Deno.remove(workDir, { recursive: true })
+  }
+}
+
+// Failed jobs go back to the queue, a little later each time, until they run
+// out of attempts. Then the video is marked failed so the owner can see it.
+const finishJob = async (job: MediaJob, failure: unknown) => {
+  const status = failure === null ? 'done' : job.attempts >= MAX_ATTEMPTS ? 'failed' : 'pending'
+  const retryDelay = RETRY_DELAY_MS * 2 ** (job.attempts - 1)
+
+  const { error } = await supabase
+    .from('MediaJob')
+    .update({
+      status,
+      lastError: failure === null ? null : String((failure as Error)?.message ?? failure),
+      lockedAt: null,
+      runAfter: new Date(Date.now() + (status === 'pending' ? retryDelay : 0)).toISOString(),
+      updatedAt: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+
+  if (error) {
+    console.error(`Failed to update job ${job.id}:`, error)
+  }
+
+  if (status === 'failed') {
+    const { error: videoError } = await supabase
+      .from('Video')
+      .update({ processingStatus: 'failed' })
+      .eq('id', job.videoId)
+
+    if (videoError) {
+      console.error(`Failed to mark video ${job.videoId} as failed:`, videoError)
+    }
+  }
+}
+
+console.log(`Media worker started${once ? ' (--once)' : ''}`)
+
+while (true) {
+  const { data: jobs, error } = await supabase.rpc('claim_media_job', {
+    p_max_attempts: MAX_ATTEMPTS,
+    p_stale_after_seconds: STALE_AFTER_SECONDS,
+  })
+
+  if (error) {
+    console.error('Failed to claim a job:', error)
+    if (once) {
+      Deno.exit(1)
+    }
+    await sleep(POLL_INTERVAL_MS)
+    continue
+  }
+
+  const job = (jobs as MediaJob[])[0]
+
+  if (!job) {
+    if (once) {
+      break
+    }
+    await sleep(POLL_INTERVAL_MS)
+    continue
+  }
+
+  try {
+    await processJob(job)
+    await finishJob(job, null)
+    console.log(`Processed video ${job.videoId}`)
+  } catch (failure) {
+    console.error(`Failed to process video ${job.videoId} (attempt ${job.attempts} of ${MAX_ATTEMPTS}):`, failure)
+    await finishJob(job, failure)
+  }
+}
+
+console.log('Queue is empty')